@@ -0,0 +1,200 @@
+// Used by change-detection.ts for alerting when watched products change price.
+// Alerts are collected during the run, then written into an alerts file and optionally posted to a webhook.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { log, colour, logError } from "./utilities";
+import { PriceAlert, PriceDirection, Product, WatchlistEntry } from "./typings";
+
+const priceDirections: PriceDirection[] = ["drop", "rise", "any"];
+
+let watchlist: WatchlistEntry[] = [];
+let collectedAlerts: PriceAlert[] = [];
+
+// establishAlerts()
+// -----------------
+// Loads the watchlist from WATCHLIST_PATH in .env or the default src/watchlist.json.
+// If there is no watchlist file, no alerts will be raised. Returns the number of watched entries.
+
+export function establishAlerts(
+  filePath = process.env.WATCHLIST_PATH || "src/watchlist.json"
+): number {
+  collectedAlerts = [];
+  watchlist = fs.existsSync(filePath) ? parseWatchlist(fs.readFileSync(filePath, "utf-8"), filePath) : [];
+  return watchlist.length;
+}
+
+// parseWatchlist()
+// ----------------
+// Parses and validates the watchlist JSON, which is an array of entries such as:
+//  { "id": "123456", "direction": "drop", "minChangePercent": 10 }
+//  { "namePattern": "salmon", "targetUnitPrice": 40 }
+// Throws if any entry is invalid, so a typo doesn't silently disable alerts
+
+export function parseWatchlist(json: string, fileName = "watchlist"): WatchlistEntry[] {
+  let entries: WatchlistEntry[];
+  try {
+    entries = JSON.parse(json);
+  } catch (error) {
+    throw Error(`Unable to parse ${fileName}\n` + error);
+  }
+  if (!Array.isArray(entries)) throw Error(`${fileName} should contain an array of watchlist entries`);
+
+  entries.forEach((entry, index) => {
+    const entryName = `${fileName} entry ${index + 1}`;
+    if (entry.id === undefined && entry.namePattern === undefined) {
+      throw Error(`${entryName} needs an id or namePattern`);
+    }
+    if (entry.namePattern !== undefined) {
+      try {
+        new RegExp(entry.namePattern, "i");
+      } catch {
+        throw Error(`${entryName} has an invalid namePattern '${entry.namePattern}'`);
+      }
+    }
+    if (entry.direction !== undefined && !priceDirections.includes(entry.direction)) {
+      throw Error(`${entryName} direction should be one of: ${priceDirections.join(", ")}`);
+    }
+    ["minChange", "minChangePercent", "targetUnitPrice"].forEach((key) => {
+      const value = entry[key as keyof WatchlistEntry];
+      if (value !== undefined && (typeof value !== "number" || value < 0)) {
+        throw Error(`${entryName} ${key} should be a positive number`);
+      }
+    });
+  });
+  return entries;
+}
+
+// checkPriceAlert()
+// -----------------
+// Checks a single watchlist entry against a price change, returns an alert if any threshold is met.
+// An entry without thresholds alerts on every recorded price change in its direction.
+
+export function checkPriceAlert(
+  entry: WatchlistEntry,
+  dbProduct: Product,
+  scrapedProduct: Product
+): PriceAlert | undefined {
+  const matchesId = entry.id !== undefined && entry.id === scrapedProduct.id;
+  const matchesName =
+    entry.namePattern !== undefined && new RegExp(entry.namePattern, "i").test(scrapedProduct.name);
+  if (!matchesId && !matchesName) return undefined;
+
+  const previousPrice = dbProduct.currentPrice;
+  const newPrice = scrapedProduct.currentPrice;
+  const change = Math.round((newPrice - previousPrice) * 100) / 100;
+  const changePercent = previousPrice > 0 ? Math.round((change / previousPrice) * 1000) / 10 : 0;
+
+  const direction = entry.direction || "any";
+  const inDirection =
+    change !== 0 && (direction === "any" || (direction === "drop" ? change < 0 : change > 0));
+
+  const reasons: string[] = [];
+  const hasChangeThreshold = entry.minChange !== undefined || entry.minChangePercent !== undefined;
+  if (inDirection && entry.minChange !== undefined && Math.abs(change) >= entry.minChange) {
+    reasons.push(`price changed by $${Math.abs(change)}`);
+  }
+  if (
+    inDirection &&
+    entry.minChangePercent !== undefined &&
+    Math.abs(changePercent) >= entry.minChangePercent
+  ) {
+    reasons.push(`price changed by ${Math.abs(changePercent)}%`);
+  }
+
+  // Target unit prices alert only when first reached, not on every later change below the target
+  if (
+    entry.targetUnitPrice !== undefined &&
+    scrapedProduct.unitPrice !== undefined &&
+    scrapedProduct.unitPrice <= entry.targetUnitPrice &&
+    (dbProduct.unitPrice === undefined || dbProduct.unitPrice > entry.targetUnitPrice)
+  ) {
+    reasons.push(`unit price reached target $${entry.targetUnitPrice} /${scrapedProduct.unitName}`);
+  }
+  if (inDirection && !hasChangeThreshold && entry.targetUnitPrice === undefined) {
+    reasons.push(change < 0 ? "price dropped" : "price rose");
+  }
+  if (reasons.length === 0) return undefined;
+
+  return {
+    productId: scrapedProduct.id,
+    name: scrapedProduct.name,
+    previousPrice,
+    newPrice,
+    change,
+    changePercent,
+    unitPrice: scrapedProduct.unitPrice,
+    unitName: scrapedProduct.unitName,
+    watch: matchesId ? `id ${entry.id}` : `name ${entry.namePattern}`,
+    reasons,
+    triggeredAt: new Date().toISOString(),
+  };
+}
+
+// evaluatePriceAlerts()
+// ---------------------
+// Called during upsert when a price change is recorded, collects the first alert raised by the watchlist
+
+export function evaluatePriceAlerts(dbProduct: Product, scrapedProduct: Product) {
+  for (const entry of watchlist) {
+    const alert = checkPriceAlert(entry, dbProduct, scrapedProduct);
+    if (alert !== undefined) {
+      log(
+        colour.magenta,
+        `  Price Alert: ${alert.name.slice(0, 47).padEnd(47)} | ${alert.reasons.join(", ")}`
+      );
+      collectedAlerts.push(alert);
+      return;
+    }
+  }
+}
+
+// getCollectedAlerts()
+// --------------------
+
+export function getCollectedAlerts(): PriceAlert[] {
+  return collectedAlerts;
+}
+
+// writeAlertsFile()
+// -----------------
+// Writes this run's alerts into REPORTS_DIR from .env or the default reports folder,
+//  returns the file path, or undefined if there were no alerts
+
+export function writeAlertsFile(
+  runId: string,
+  reportsDir = process.env.REPORTS_DIR || "reports"
+): string | undefined {
+  if (collectedAlerts.length === 0) return undefined;
+  fs.mkdirSync(reportsDir, { recursive: true });
+  const filePath = path.join(reportsDir, `alerts-${runId}.json`);
+  fs.writeFileSync(filePath, JSON.stringify(collectedAlerts, null, 2));
+  return filePath;
+}
+
+// postAlertsToWebhook()
+// ---------------------
+// Posts this run's alerts as JSON to ALERT_WEBHOOK_URL from .env, if set and there are any alerts.
+// Returns true if the webhook accepted the alerts
+
+export async function postAlertsToWebhook(
+  runId: string,
+  webhookUrl = process.env.ALERT_WEBHOOK_URL
+): Promise<boolean> {
+  if (!webhookUrl || collectedAlerts.length === 0) return false;
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ runId, alertCount: collectedAlerts.length, alerts: collectedAlerts }),
+    });
+    if (!response.ok) {
+      logError(`Alert webhook returned status code: ${response.status}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logError(`Unable to post alerts to webhook - ${(error as Error).message}`);
+    return false;
+  }
+}
@@ -0,0 +1,109 @@
+// Used by index.ts for deriving allergen flags and dietary tags from a product's ingredients,
+//  which are stored on each product and can be used to filter exports
+
+import * as cheerio from "cheerio";
+import { Allergen, DietaryTag } from "./typings";
+
+export const allergens: Allergen[] = [
+  "gluten", "milk", "egg", "peanut", "tree-nuts", "soy", "sesame", "fish", "shellfish",
+];
+export const dietaryTags: DietaryTag[] = ["vegan", "vegetarian", "gluten-free", "dairy-free"];
+
+// Words which indicate each allergen, matched on whole words within the ingredients text
+const allergenPatterns: { [allergen in Allergen]: RegExp } = {
+  gluten: /\b(gluten|wheat|barley|rye|oats?|spelt|semolina|durum|triticale|kamut|malt|couscous|bulgur)\b/,
+  milk: /\b(milk|cream|butter|buttermilk|cheese|whey|casein|caseinates?|lactose|yogh?urt|ghee|dairy)\b/,
+  egg: /\b(eggs?|albumen|yolks?|ovalbumin)\b/,
+  peanut: /\b(peanuts?|groundnuts?|arachis)\b/,
+  "tree-nuts": /\b(tree[- ]nuts?|almonds?|cashews?|hazelnuts?|walnuts?|pecans?|pistachios?|macadamias?|brazil nuts?|pine nuts?)\b/,
+  soy: /\b(soy|soya|soybeans?|tofu|edamame|miso|tempeh)\b/,
+  sesame: /\b(sesame|tahini)\b/,
+  fish: /\b(fish|anchov(y|ies)|salmon|tuna|cod|hoki|sardines?|mackerel|trout|snapper|tarakihi)\b/,
+  shellfish: /\b(shellfish|crustaceans?|molluscs?|prawns?|shrimps?|crabs?|lobsters?|crayfish|mussels?|oysters?|scallops?|squid|calamari|clams?|krill|paua|octopus|cuttlefish|pipis?)\b/,
+};
+
+// Plant based ingredients whose 'milk', 'cream' or 'butter' would otherwise match dairy, such as 'coconut milk'.
+// Only the dairy word is removed, so the plant is still matched, such as the peanut of 'peanut butter'
+const plantBasedPhrases =
+  /\b(coconut|almond|soy|soya|oat|rice|cashew) (?:milk|cream)\b|\b(peanut|nut|cocoa|shea|almond|cashew) butter\b/g;
+
+// Ingredients which rule out vegetarian, along with fish and shellfish
+const meatPattern =
+  /\b(meat|beef|pork|chicken|lamb|mutton|veal|venison|turkey|duck|bacon|ham|gelatine?|lard|tallow|collagen|animal rennet)\b/;
+
+// Animal products which rule out vegan, along with milk and egg
+const animalProductPattern = /\b(honey|beeswax|shellac|carmine|cochineal|lanolin)\b/;
+
+// analyseIngredients()
+// --------------------
+// Takes a product's ingredients, including any bracketed sub-ingredients, and returns its allergens
+//  and dietary tags. Allergens declared separately on the product page, such as bolded ingredients
+//  or a 'Contains' statement, are also flagged.
+// Dietary tags are only candidates, as they are derived from the ingredients alone.
+
+export function analyseIngredients(
+  ingredients: string[],
+  declaredAllergens: string[] = []
+): { allergens: Allergen[]; dietaryTags: DietaryTag[] } {
+  const ingredientsText = normaliseIngredientsText(ingredients.join(", "));
+  const declaredText = normaliseIngredientsText(declaredAllergens.join(", "));
+
+  const foundAllergens = allergens.filter(
+    (allergen) => allergenPatterns[allergen].test(ingredientsText) || allergenPatterns[allergen].test(declaredText)
+  );
+
+  // Without any ingredients, nothing can be said about the product's diet
+  const foundTags: DietaryTag[] = [];
+  if (ingredientsText.trim().length > 0) {
+    const isVegetarian =
+      !meatPattern.test(ingredientsText) && !foundAllergens.includes("fish") && !foundAllergens.includes("shellfish");
+    const isVegan =
+      isVegetarian &&
+      !animalProductPattern.test(ingredientsText) &&
+      !foundAllergens.includes("milk") &&
+      !foundAllergens.includes("egg");
+
+    if (isVegan) foundTags.push("vegan");
+    if (isVegetarian) foundTags.push("vegetarian");
+    if (!foundAllergens.includes("gluten")) foundTags.push("gluten-free");
+    if (!foundAllergens.includes("milk")) foundTags.push("dairy-free");
+  }
+
+  return { allergens: foundAllergens, dietaryTags: foundTags };
+}
+
+// normaliseIngredientsText()
+// --------------------------
+// Lowercases ingredients text, and removes text which would give false matches,
+//  such as 'may contain traces of peanuts', 'gluten free', 'cream of tartar' and the 'milk' of 'coconut milk'
+
+function normaliseIngredientsText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/may (also )?contain[^.;]*/g, " ")
+    .replace(/\b[a-z]+[ -]free\b/g, " ")
+    .replace(/\bcream of tartar\b/g, " ")
+    .replace(plantBasedPhrases, (phrase, milkPlant, butterPlant) => milkPlant ?? butterPlant);
+}
+
+// parseAllergenDeclarationsFromProductPage()
+// ------------------------------------------
+// Takes the html of a product page and returns any allergens declared within the ingredients,
+//  which are either bolded, or listed after 'Contains'.
+// Uses the same ingredients element as parseIngredientsFromProductPage() in index.ts.
+
+export function parseAllergenDeclarationsFromProductPage(html: string): string[] {
+  const $ = cheerio.load(html);
+  const ingredientsElement = $("cdx-accordion cdx-accordion-item:nth-child(2) > div > div > div").first();
+
+  const boldedText = ingredientsElement
+    .find("b, strong")
+    .map((i, element) => $(element).text().trim())
+    .get()
+    .filter((text) => text.length > 0);
+
+  const containsMatch = ingredientsElement.text().match(/\bcontains\s*:?\s*([^.]+)/i);
+  const containsText = containsMatch ? [containsMatch[1].trim()] : [];
+
+  return [...boldedText, ...containsText];
+}
@@ -0,0 +1,207 @@
+// Used by index.ts for assigning categories to scraped products with rules, instead of overriding
+//  each mis-categorised product by id. Rules match on product name keywords or patterns, the url
+//  the product was scraped from, and ingredient hints, and are loaded from a JSON or YAML file.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from "yaml";
+import { log, colour, validCategories } from "./utilities";
+import { CategoryRule, CategoryRuleMatch, Product } from "./typings";
+
+const ruleFields = ["name", "category", "priority", "nameKeywords", "namePattern", "urlPattern", "ingredientHints"];
+const conditionFields = ["nameKeywords", "namePattern", "urlPattern", "ingredientHints"];
+
+// Rules are kept sorted by precedence, highest priority first, then in file order
+let categoryRules: CategoryRule[] = [];
+
+// establishCategoryRules()
+// ------------------------
+// Loads rules from CATEGORY_RULES_PATH in .env or the default src/category-rules.json.
+// If there is no rules file, products keep the categories of the url they were scraped from.
+// Returns the number of rules, and throws if any rule is invalid
+
+export function establishCategoryRules(
+  filePath = process.env.CATEGORY_RULES_PATH || "src/category-rules.json"
+): number {
+  const rules = fs.existsSync(filePath)
+    ? parseCategoryRules(fs.readFileSync(filePath, "utf-8"), filePath)
+    : [];
+  categoryRules = rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index)
+    .map(({ rule }) => rule);
+  return categoryRules.length;
+}
+
+// parseCategoryRules()
+// --------------------
+// Parses and validates rules from JSON, or YAML for .yaml and .yml files, such as:
+//  [{ "name": "herbal tea names", "category": "herbal-tea", "urlPattern": "/black-breakfast-tea", "nameKeywords": ["peppermint"] }]
+// Throws with every problem found if any rule is invalid
+
+export function parseCategoryRules(text: string, fileName = "category-rules.json"): CategoryRule[] {
+  const entries = readRulesText(text, fileName);
+  const problems = lintCategoryRules(entries);
+  if (problems.length > 0) {
+    throw Error(`Invalid category rules in ${fileName}:\n - ` + problems.join("\n - "));
+  }
+  return entries as CategoryRule[];
+}
+
+// lintCategoryRules()
+// -------------------
+// Returns a description of every problem found within the rules, such as unknown fields or categories,
+//  invalid patterns, duplicate names, or rules without any condition to match on
+
+export function lintCategoryRules(entries: unknown): string[] {
+  if (!Array.isArray(entries)) return ["rules must be an array"];
+
+  const problems: string[] = [];
+  const ruleNames = new Set<string>();
+  entries.forEach((entry, index) => {
+    const entryName = `rule ${index + 1}`;
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      problems.push(`${entryName} must be an object`);
+      return;
+    }
+
+    if (typeof entry.name !== "string" || !entry.name.trim()) {
+      problems.push(`${entryName} needs a name, which is shown when explaining categories`);
+    } else if (ruleNames.has(entry.name)) {
+      problems.push(`${entryName} has the same name as another rule '${entry.name}'`);
+    } else {
+      ruleNames.add(entry.name);
+    }
+    const description = `${entryName} (${entry.name})`;
+
+    Object.keys(entry)
+      .filter((key) => !ruleFields.includes(key))
+      .forEach((key) => problems.push(`${description} has unknown field '${key}'`));
+
+    if (!validCategories.includes(entry.category)) {
+      problems.push(`${description} has unknown category '${entry.category}'`);
+    }
+    if (entry.priority !== undefined && typeof entry.priority !== "number") {
+      problems.push(`${description} priority must be a number`);
+    }
+    if (!conditionFields.some((key) => entry[key] !== undefined)) {
+      problems.push(`${description} needs at least one of: ${conditionFields.join(", ")}`);
+    }
+
+    ["nameKeywords", "ingredientHints"].forEach((key) => {
+      if (entry[key] === undefined) return;
+      if (
+        !Array.isArray(entry[key]) ||
+        entry[key].length === 0 ||
+        entry[key].some((word: unknown) => typeof word !== "string" || !word.trim())
+      ) {
+        problems.push(`${description} ${key} must be a list of non-empty text`);
+      }
+    });
+
+    ["namePattern", "urlPattern"].forEach((key) => {
+      if (entry[key] === undefined) return;
+      try {
+        if (typeof entry[key] !== "string") throw Error();
+        new RegExp(entry[key], "i");
+      } catch {
+        problems.push(`${description} has an invalid ${key} '${entry[key]}'`);
+      }
+    });
+  });
+  return problems;
+}
+
+// matchCategoryRule()
+// -------------------
+// Returns the highest precedence rule matching the product and the url it was scraped from,
+//  along with the reasons it matched. A rule only matches if every one of its conditions match.
+
+export function matchCategoryRule(product: Product, sourceUrl = ""): CategoryRuleMatch | undefined {
+  for (const rule of categoryRules) {
+    const reasons = matchRuleConditions(rule, product, sourceUrl);
+    if (reasons !== undefined) return { rule, reasons };
+  }
+  return undefined;
+}
+
+// explainCategoryRule()
+// ---------------------
+// Logs which rule, if any, set the categories of a product, used by the 'explain-categories' argument.
+// Products without a matching rule either kept their scraped categories or were manually overridden
+
+export function explainCategoryRule(
+  product: Product,
+  scrapedCategories: string[],
+  match: CategoryRuleMatch | undefined
+) {
+  const productName = product.name.slice(0, 40).padEnd(40);
+  if (match === undefined) {
+    const categoryChange = product.category.join(" ") === scrapedCategories.join(" ")
+      ? `${scrapedCategories.join(" ")} - no rule matched`
+      : `${scrapedCategories.join(" ")} > ${product.category.join(" ")} - product override`;
+    log(colour.grey, `  Category     : ${productName} | ${categoryChange}`);
+    return;
+  }
+  log(
+    colour.sky,
+    `  Category     : ${productName} | ${scrapedCategories.join(" ")} > ${match.rule.category}` +
+    ` - rule '${match.rule.name}' matched ${match.reasons.join(", ")}`
+  );
+}
+
+// matchRuleConditions()
+// ---------------------
+// Returns a reason for each condition of the rule, or undefined if any condition doesn't match
+
+function matchRuleConditions(rule: CategoryRule, product: Product, sourceUrl: string): string[] | undefined {
+  const reasons: string[] = [];
+
+  if (rule.nameKeywords !== undefined) {
+    const keyword = rule.nameKeywords.find((keyword) =>
+      new RegExp(`\\b${escapeRegExp(keyword.trim())}\\b`, "i").test(product.name)
+    );
+    if (keyword === undefined) return undefined;
+    reasons.push(`name keyword '${keyword}'`);
+  }
+
+  if (rule.namePattern !== undefined) {
+    if (!new RegExp(rule.namePattern, "i").test(product.name)) return undefined;
+    reasons.push(`name pattern '${rule.namePattern}'`);
+  }
+
+  if (rule.urlPattern !== undefined) {
+    if (!new RegExp(rule.urlPattern, "i").test(sourceUrl)) return undefined;
+    reasons.push(`url pattern '${rule.urlPattern}'`);
+  }
+
+  if (rule.ingredientHints !== undefined) {
+    const hint = rule.ingredientHints.find((hint) =>
+      product.ingredients.some((ingredient) => ingredient.toLowerCase().includes(hint.trim().toLowerCase()))
+    );
+    if (hint === undefined) return undefined;
+    reasons.push(`ingredient hint '${hint}'`);
+  }
+
+  return reasons;
+}
+
+// escapeRegExp()
+// --------------
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// readRulesText()
+// ---------------
+// Parses rules text as YAML for .yaml and .yml files, otherwise as JSON
+
+function readRulesText(text: string, fileName: string): unknown {
+  const extension = path.extname(fileName).toLowerCase();
+  try {
+    return extension === ".yaml" || extension === ".yml" ? YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw Error(`Unable to parse ${fileName}\n` + error);
+  }
+}
@@ -0,0 +1,347 @@
+// Used by every ProductStore for comparing a freshly scraped product against its database version
+
+import { log, colour, validCategories } from "./utilities";
+import { Availability, Product, ProductChange, ProductResponse, StorePrice, UpsertResponse } from "./typings";
+import { evaluatePriceAlerts } from "./alerts";
+import { isPrimaryStore } from "./store-locations";
+
+// Prices must move by more than this amount to be recorded into priceHistory
+const minPriceChange = 0.05;
+
+// Price-derived values which are kept from the database when a product is scraped without a price
+const priceKeys = [
+  "unitPrice", "unitName", "originalUnitQuantity", "unitPriceConfidence", "unitPriceReason",
+  "displayUnitPrice", "displayUnitName", "siteUnitPrice", "siteUnitName", "regularPrice", "promoPrice", "promoType", "multibuy",
+] as const;
+
+// Values which only the primary store sets, when multiple store locations are scraped
+const primaryStoreKeys = [...priceKeys, "availability", "availabilityHistory"] as const;
+
+// detectProductChanges()
+// ----------------------
+// Compares a scraped product with a database product,
+//  returns every kind of change found, or an empty array if nothing has changed
+
+export function detectProductChanges(
+  scrapedProduct: Product,
+  dbProduct: Product
+): ProductChange[] {
+  const changes: ProductChange[] = [];
+
+  // If price has changed by more than $0.05, and not on the same day
+  if (isPriceChanged(dbProduct, scrapedProduct)) {
+    changes.push(ProductChange.Price);
+  }
+
+  // If the price of any scraped store location is new or has changed, in the same way
+  const dbStorePrices = dbProduct.storePrices || {};
+  if (
+    Object.entries(scrapedProduct.storePrices || {}).some(
+      ([storeName, storePrice]) =>
+        dbStorePrices[storeName] === undefined || isPriceChanged(dbStorePrices[storeName], storePrice)
+    )
+  ) {
+    changes.push(ProductChange.StorePrice);
+  }
+
+  // If ingredients were scraped and differ from the db ingredients.
+  // An empty scrape is ignored so a failed product page doesn't wipe existing ingredients
+  const dbIngredients = dbProduct.ingredients || [];
+  const ingredientsDifferent = !(
+    dbIngredients.length === scrapedProduct.ingredients.length &&
+    dbIngredients.every((value, index) => value === scrapedProduct.ingredients[index])
+  );
+  if (ingredientsDifferent && scrapedProduct.ingredients.length > 0) {
+    changes.push(ProductChange.Ingredients);
+  }
+
+  // If any db categories are not valid, or differ from the scraped categories
+  if (
+    dbProduct.category === null ||
+    dbProduct.category === undefined ||
+    !dbProduct.category.every((category) => validCategories.includes(category)) ||
+    dbProduct.category.join(" ") !== scrapedProduct.category.join(" ")
+  ) {
+    changes.push(ProductChange.Category);
+  }
+
+  // If availability was scraped and differs from the last known availability
+  if (
+    scrapedProduct.availability !== undefined &&
+    dbProduct.availability !== scrapedProduct.availability
+  ) {
+    changes.push(ProductChange.Availability);
+  }
+
+  // Other info
+  if (
+    dbProduct.sourceSite !== scrapedProduct.sourceSite ||
+    dbProduct.size !== scrapedProduct.size ||
+    dbProduct.unitPrice !== scrapedProduct.unitPrice ||
+    dbProduct.unitName !== scrapedProduct.unitName ||
+    dbProduct.originalUnitQuantity !== scrapedProduct.originalUnitQuantity ||
+    // Promotions may start or end without a recorded price change, such as a new multibuy deal
+    dbProduct.regularPrice !== scrapedProduct.regularPrice ||
+    dbProduct.promoPrice !== scrapedProduct.promoPrice ||
+    dbProduct.promoType !== scrapedProduct.promoType ||
+    JSON.stringify(dbProduct.multibuy) !== JSON.stringify(scrapedProduct.multibuy) ||
+    // Nutrition is only compared when a product page was scraped this run
+    (scrapedProduct.nutrition !== undefined &&
+      JSON.stringify(dbProduct.nutrition) !== JSON.stringify(scrapedProduct.nutrition)) ||
+    // Allergens and dietary tags are only compared when ingredients are known this run
+    (scrapedProduct.allergens !== undefined &&
+      JSON.stringify(dbProduct.allergens) !== JSON.stringify(scrapedProduct.allergens)) ||
+    (scrapedProduct.dietaryTags !== undefined &&
+      JSON.stringify(dbProduct.dietaryTags) !== JSON.stringify(scrapedProduct.dietaryTags))
+  ) {
+    changes.push(ProductChange.Info);
+  }
+
+  return changes;
+}
+
+// buildUpdatedProduct()
+// ---------------------
+// This takes a freshly scraped product and compares it with a found database product.
+// The store location the product was scraped from, if any, decides whether it sets the main price.
+// It returns an updated product with data from both product versions,
+//  along with every change found and the overall UpsertResponse
+
+export function buildUpdatedProduct(
+  scrapedProduct: Product,
+  dbProduct: Product,
+  storeName?: string
+): ProductResponse {
+  // Products from stores other than the primary store only update their own store price,
+  //  and out of stock products may be scraped without a price, so keep the last known price
+  if (!isPrimaryStore(storeName)) keepLastKnownPrice(scrapedProduct, dbProduct, primaryStoreKeys);
+  else if (!(scrapedProduct.currentPrice > 0)) keepLastKnownPrice(scrapedProduct, dbProduct, priceKeys);
+
+  const changes = detectProductChanges(scrapedProduct, dbProduct);
+  const storePrices = mergeStorePrices(scrapedProduct, dbProduct);
+
+  // Nothing has changed, only update when and by which run the product was last checked,
+  //  when ingredients were last checked, and details derived from the product's name, size and ingredients
+  if (changes.length === 0) {
+    dbProduct.lastChecked = scrapedProduct.lastChecked;
+    if (scrapedProduct.lastCheckedRunId) dbProduct.lastCheckedRunId = scrapedProduct.lastCheckedRunId;
+    if (scrapedProduct.ingredientsLastChecked) {
+      dbProduct.ingredientsLastChecked = scrapedProduct.ingredientsLastChecked;
+    }
+    if (scrapedProduct.ingredientTree) dbProduct.ingredientTree = scrapedProduct.ingredientTree;
+    if (scrapedProduct.allergenDeclarations) dbProduct.allergenDeclarations = scrapedProduct.allergenDeclarations;
+    if (scrapedProduct.unitPriceConfidence) {
+      dbProduct.unitPriceConfidence = scrapedProduct.unitPriceConfidence;
+      dbProduct.unitPriceReason = scrapedProduct.unitPriceReason;
+      dbProduct.displayUnitPrice = scrapedProduct.displayUnitPrice;
+      dbProduct.displayUnitName = scrapedProduct.displayUnitName;
+    }
+    if (scrapedProduct.siteUnitPrice !== undefined) {
+      dbProduct.siteUnitPrice = scrapedProduct.siteUnitPrice;
+      dbProduct.siteUnitName = scrapedProduct.siteUnitName;
+    }
+    if (storePrices) dbProduct.storePrices = storePrices;
+    return {
+      upsertType: UpsertResponse.AlreadyUpToDate,
+      product: dbProduct,
+      changes,
+    };
+  }
+
+  const dbPriceHistory = dbProduct.priceHistory || [];
+  if (storePrices) scrapedProduct.storePrices = storePrices;
+
+  if (changes.includes(ProductChange.Price)) {
+    // Push scraped priceHistory into existing priceHistory array
+    logPriceChange(dbProduct, scrapedProduct.currentPrice);
+    evaluatePriceAlerts(dbProduct, scrapedProduct);
+    scrapedProduct.priceHistory = [...dbPriceHistory, scrapedProduct.priceHistory[0]];
+  } else {
+    // Keep existing priceHistory and lastUpdated
+    scrapedProduct.priceHistory = dbPriceHistory;
+    scrapedProduct.lastUpdated = dbProduct.lastUpdated;
+  }
+
+  if (changes.includes(ProductChange.Ingredients)) {
+    logIngredientChange(dbProduct, scrapedProduct.ingredients);
+  } else {
+    // Keep existing ingredients, in case they failed to be scraped this time
+    scrapedProduct.ingredients = dbProduct.ingredients || [];
+    scrapedProduct.ingredientsLastChecked ??= dbProduct.ingredientsLastChecked;
+    scrapedProduct.ingredientTree ??= dbProduct.ingredientTree;
+  }
+
+  // Keep existing nutrition, allergens and dietary tags when no product page was scraped this run
+  scrapedProduct.nutrition ??= dbProduct.nutrition;
+  scrapedProduct.allergens ??= dbProduct.allergens;
+  scrapedProduct.allergenDeclarations ??= dbProduct.allergenDeclarations;
+  scrapedProduct.dietaryTags ??= dbProduct.dietaryTags;
+
+  if (changes.includes(ProductChange.Availability)) {
+    // Push scraped availability into existing availabilityHistory array
+    logAvailabilityChange(dbProduct, scrapedProduct.availability!);
+    scrapedProduct.availabilityHistory = [
+      ...(dbProduct.availabilityHistory || []),
+      ...(scrapedProduct.availabilityHistory || []),
+    ];
+  } else {
+    // Keep existing availabilityHistory, if any
+    scrapedProduct.availabilityHistory = dbProduct.availabilityHistory || scrapedProduct.availabilityHistory;
+  }
+
+  if (changes.includes(ProductChange.Category)) {
+    console.log(
+      `  Categories Changed: ${scrapedProduct.name.padEnd(40).substring(0, 40)}` +
+      ` - ${(dbProduct.category || []).join(" ")} > ${scrapedProduct.category.join(" ")}`
+    );
+  }
+
+  // Return completed Product ready for uploading
+  return {
+    upsertType: changes.includes(ProductChange.Price) || changes.includes(ProductChange.StorePrice)
+      ? UpsertResponse.PriceChanged
+      : UpsertResponse.InfoChanged,
+    product: scrapedProduct,
+    changes,
+  };
+}
+
+// keepLastKnownPrice()
+// --------------------
+// Copies the price, along with other listed values, of a database product onto a scraped product
+
+function keepLastKnownPrice(
+  scrapedProduct: Product,
+  dbProduct: Product,
+  keys: readonly (keyof Product)[]
+) {
+  scrapedProduct.currentPrice = dbProduct.currentPrice;
+  scrapedProduct.priceHistory = [];
+  scrapedProduct.lastUpdated = dbProduct.lastUpdated;
+  keys.forEach((key) => copyProductValue(scrapedProduct, dbProduct, key));
+}
+
+// copyProductValue()
+// ------------------
+// Copies a single value from one product onto another, or removes it if the source has no value
+
+function copyProductValue<K extends keyof Product>(target: Product, source: Product, key: K) {
+  if (source[key] === undefined || source[key] === null) delete target[key];
+  else target[key] = source[key];
+}
+
+// isPriceChanged()
+// ----------------
+// Returns true if a price has moved by more than $0.05, and not on the same day
+
+function isPriceChanged(
+  oldPrice: { currentPrice: number; lastUpdated: Date },
+  newPrice: { currentPrice: number; lastUpdated: Date }
+): boolean {
+  return (
+    Math.abs(oldPrice.currentPrice - newPrice.currentPrice) > minPriceChange &&
+    toDayString(oldPrice.lastUpdated) !== toDayString(newPrice.lastUpdated)
+  );
+}
+
+// mergeStorePrices()
+// ------------------
+// Merges the scraped store prices into the database store prices.
+// Changed prices are appended to that store's priceHistory, otherwise only lastChecked is updated.
+// Returns undefined if neither product has any store prices
+
+function mergeStorePrices(
+  scrapedProduct: Product,
+  dbProduct: Product
+): { [storeName: string]: StorePrice } | undefined {
+  if (scrapedProduct.storePrices === undefined) return dbProduct.storePrices;
+
+  const storePrices = { ...dbProduct.storePrices };
+  Object.entries(scrapedProduct.storePrices).forEach(([storeName, scrapedStorePrice]) => {
+    const dbStorePrice = storePrices[storeName];
+    if (dbStorePrice === undefined) {
+      storePrices[storeName] = scrapedStorePrice;
+    } else if (isPriceChanged(dbStorePrice, scrapedStorePrice)) {
+      if (!isPrimaryStore(storeName)) {
+        logPriceChange(
+          { ...dbProduct, currentPrice: dbStorePrice.currentPrice },
+          scrapedStorePrice.currentPrice,
+          storeName
+        );
+      }
+      storePrices[storeName] = {
+        ...scrapedStorePrice,
+        priceHistory: [...(dbStorePrice.priceHistory || []), ...scrapedStorePrice.priceHistory],
+      };
+    } else {
+      storePrices[storeName] = { ...dbStorePrice, lastChecked: scrapedStorePrice.lastChecked };
+    }
+  });
+  return storePrices;
+}
+
+// toDayString()
+// -------------
+// Dates pulled from databases may be strings or Date objects,
+//  both are re-parsed as strings in format yyyy-mm-dd
+
+function toDayString(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+// logPriceChange()
+// ----------------
+// Log a per product price change message, optionally for a single store location,
+//  coloured green for price reduction, red for price increase
+
+export function logPriceChange(product: Product, newPrice: number, storeName?: string) {
+  const priceIncreased = newPrice > product.currentPrice;
+  log(
+    priceIncreased ? colour.red : colour.green,
+    "  Price " +
+    (priceIncreased ? "Up   : " : "Down : ") +
+    product.name.slice(0, 47).padEnd(47) +
+    " | $" +
+    product.currentPrice.toString().padStart(4) +
+    " > $" +
+    newPrice +
+    (storeName ? ` at ${storeName}` : "")
+  );
+}
+
+// logAvailabilityChange()
+// -----------------------
+// Log a per product availability change message,
+//  coloured green for back in stock, red for out of stock or unavailable
+
+export function logAvailabilityChange(product: Product, newAvailability: Availability) {
+  log(
+    newAvailability === "in-stock" ? colour.green : colour.red,
+    "  Availability : " +
+    product.name.slice(0, 47).padEnd(47) +
+    " | " +
+    (product.availability || "unknown") +
+    " > " +
+    newAvailability
+  );
+}
+
+// logIngredientChange()
+// ----------------
+// Log a per product ingredient change message,
+//  coloured green for fewer ingredients, red for more ingredients
+
+export function logIngredientChange(product: Product, newIngredients: string[]) {
+  const oldIngredients = product.ingredients || [];
+  const ingredientsIncreased = newIngredients.length > oldIngredients.length;
+  log(
+    ingredientsIncreased ? colour.red : colour.green,
+    "  Ingredients " +
+    (ingredientsIncreased ? "Increased: " : "Decreased: ") +
+    product.name.slice(0, 47).padEnd(47) +
+    " | " +
+    oldIngredients.join(", ").slice(0, 50).padEnd(50) +
+    " > " +
+    newIngredients.join(", ").slice(0, 50)
+  );
+}
@@ -0,0 +1,78 @@
+// Used by index.ts for saving progress after each completed url,
+//  so an interrupted run can be continued with the 'resume' argument
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CategorisedUrl, RunCheckpoint } from "./typings";
+import { createEmptyStats } from "./run-summary";
+
+// createRunId()
+// -------------
+// Creates a unique id for a scrape run, such as 20240601-093000-3f2a
+
+export function createRunId(runStartTime: number): string {
+  const timestamp = new Date(runStartTime).toISOString().slice(0, 19).replace(/[-:]/g, "").replace("T", "-");
+  const randomSuffix = Math.random().toString(16).slice(2, 6).padEnd(4, "0");
+  return `${timestamp}-${randomSuffix}`;
+}
+
+// createCheckpoint()
+// ------------------
+// Creates the checkpoint for a new run, with no urls completed yet
+
+export function createCheckpoint(categorisedUrls: CategorisedUrl[], runStartTime: number): RunCheckpoint {
+  return {
+    runId: createRunId(runStartTime),
+    startTime: runStartTime,
+    categorisedUrls,
+    completedUrlCount: 0,
+    stats: createEmptyStats(),
+    urlSummaries: [],
+    failedUrls: [],
+    storeSelections: [],
+  };
+}
+
+// loadCheckpoint()
+// ----------------
+// Reads the checkpoint of the last incomplete run, returns undefined if there is none
+
+export function loadCheckpoint(
+  filePath = process.env.CHECKPOINT_PATH || "data/checkpoint.json"
+): RunCheckpoint | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+  try {
+    const checkpoint: RunCheckpoint = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+
+    // Fill in any values missing from checkpoints saved by older versions
+    checkpoint.stats = { ...createEmptyStats(), ...checkpoint.stats };
+    checkpoint.urlSummaries = checkpoint.urlSummaries || [];
+    checkpoint.failedUrls = checkpoint.failedUrls || [];
+    checkpoint.storeSelections = checkpoint.storeSelections || [];
+    return checkpoint;
+  } catch (error) {
+    throw Error(`Unable to parse checkpoint file ${filePath}\n` + error);
+  }
+}
+
+// saveCheckpoint()
+// ----------------
+// Overwrites the checkpoint file with the current run progress
+
+export function saveCheckpoint(
+  checkpoint: RunCheckpoint,
+  filePath = process.env.CHECKPOINT_PATH || "data/checkpoint.json"
+) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(checkpoint, null, 2));
+}
+
+// clearCheckpoint()
+// -----------------
+// Removes the checkpoint once a run has completed, so it can't be resumed again
+
+export function clearCheckpoint(
+  filePath = process.env.CHECKPOINT_PATH || "data/checkpoint.json"
+) {
+  if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+}
@@ -5,12 +5,26 @@ dotenv.config();
 dotenv.config({ path: `.env.local`, override: true });
 
 import { CosmosClient, Container, Database, FeedOptions, SqlQuerySpec } from "@azure/cosmos";
-import { logError, log, colour, validCategories } from "./utilities";
-import { Product, UpsertResponse, ProductResponse } from "./typings";
+import { logError, log, colour } from "./utilities";
+import { Product, UpsertResponse, ProductStore, ScrapeRun } from "./typings";
+import { buildUpdatedProduct } from "./change-detection";
 
 let cosmosClient: CosmosClient;
 let database: Database;
 let container: Container;
+let runsContainer: Container;
+
+// CosmosDB implementation of ProductStore, selected with 'db=cosmosdb'
+export const cosmosStore: ProductStore = {
+  name: "CosmosDB",
+  establish: establishCosmosDB,
+  upsertProduct: upsertProductToCosmosDB,
+  readProduct: readProductFromCosmosDB,
+  readProducts: readProductsFromCosmosDB,
+  uploadImage: uploadImageRestAPI,
+  upsertRun: upsertRunToCosmosDB,
+  close: async () => cosmosClient?.dispose(),
+};
 
 export async function establishCosmosDB() {
   // Get CosmosDB connection string stored in .env
@@ -41,20 +55,76 @@ export async function establishCosmosDB() {
     });
 
     container = containerResponse.container;
+
+    // Scrape runs are stored in their own container, partitioned by run ID
+    const runsContainerResponse = await database.containers.createIfNotExists({
+      id: process.env.COSMOS_RUNS_CONTAINER || "scrape_runs",
+      partitionKey: { paths: ["/id"] },
+    });
+
+    runsContainer = runsContainerResponse.container;
   } catch (error) {
     throw Error(error + "\n\nInvalid CosmosDB connection - check for valid connection string");
   }
 }
 
+// readProductFromCosmosDB()
+// -------------------------
+// Reads a single product by ID, regardless of partition key, returns undefined if not found
+
+export async function readProductFromCosmosDB(id: string): Promise<Product | undefined> {
+  const querySpec = {
+    query: `SELECT * FROM products p WHERE p.id = @id`,
+    parameters: [
+      {
+        name: "@id",
+        value: id,
+      },
+    ],
+  };
+  const { resources } = await container.items.query(querySpec).fetchAll();
+  return resources.length > 0 ? (resources[0] as Product) : undefined;
+}
+
+// readProductsFromCosmosDB()
+// --------------------------
+// Reads every product with one of the IDs in a single query, such as each product on a listing page,
+//  instead of a cross-partition query per product. Products not found are left out
+
+export async function readProductsFromCosmosDB(ids: string[]): Promise<Product[]> {
+  if (ids.length === 0) return [];
+  const querySpec = {
+    query: `SELECT * FROM products p WHERE ARRAY_CONTAINS(@ids, p.id)`,
+    parameters: [
+      {
+        name: "@ids",
+        value: ids,
+      },
+    ],
+  };
+  const { resources } = await container.items.query(querySpec).fetchAll();
+  return resources as Product[];
+}
+
 // upsertProductToCosmosDB()
 // -------------------------
 // Inserts or updates a product object to CosmosDB,
 //  returns an UpsertResponse based on if and how the Product was updated
 
 export async function upsertProductToCosmosDB(
-  scrapedProduct: Product
+  scrapedProduct: Product,
+  storeName?: string,
+  knownDbProduct?: Product
 ): Promise<UpsertResponse> {
   try {
+    // Reuse a product already read by id this run, which may be stored under a previous name
+    if (knownDbProduct !== undefined) {
+      const response = buildUpdatedProduct(scrapedProduct, knownDbProduct, storeName);
+      response.product.name = scrapedProduct.name;
+      await container.items.upsert(response.product);
+      return response.upsertType;
+    }
+
     // Check CosmosDB for any existing item using id and name as the partition key
     const cosmosResponse = await container
       .item(scrapedProduct.id as string, scrapedProduct.name)
@@ -63,7 +133,7 @@ export async function upsertProductToCosmosDB(
     // If an existing item was found in CosmosDB, check for update values before uploading
     if (cosmosResponse.statusCode === 200) {
       const dbProduct = (await cosmosResponse.resource) as Product;
-      const response = buildUpdatedProduct(scrapedProduct, dbProduct);
+      const response = buildUpdatedProduct(scrapedProduct, dbProduct, storeName);
 
       // Send updated product to CosmosDB
       await container.items.upsert(response.product);
@@ -73,24 +143,12 @@ export async function upsertProductToCosmosDB(
     // If product with ID and exact name doesn't yet exist in CosmosDB
     else if (cosmosResponse.statusCode === 404) {
       // First check if there is an existing product with the same ID but different name(partition key)
-      const querySpec = {
-        query: `SELECT * FROM products p WHERE p.id = @id`,
-        parameters: [
-          {
-            name: "@id",
-            value: scrapedProduct.id,
-          },
-        ],
-      };
-      const { resources } = await container.items.query(querySpec).fetchAll();
+      const dbProduct = await readProductFromCosmosDB(scrapedProduct.id);
 
       // If an existing ID was found, update the DB with the new name
-      if (resources.length > 0) {
-        // Cast existing product to correct type
-        const dbProduct = resources[0] as Product;
-
+      if (dbProduct !== undefined) {
         // Update product with new name
-        const response = buildUpdatedProduct(scrapedProduct, dbProduct);
+        const response = buildUpdatedProduct(scrapedProduct, dbProduct, storeName);
         response.product.name = scrapedProduct.name;
 
         // Send updated product to CosmosDB
@@ -123,114 +181,71 @@ export async function upsertProductToCosmosDB(
   }
 }
 
-// buildUpdatedProduct()
+// upsertRunToCosmosDB()
 // ---------------------
-// This takes a freshly scraped product and compares it with a found database product.
-// It returns an updated product with data from both product versions
+// Inserts or updates a scrape run in the scrape runs container, returns false if it failed
 
-function buildUpdatedProduct(
-  scrapedProduct: Product,
-  dbProduct: Product
-): ProductResponse {
-  // Date objects pulled from CosmosDB need to re-parsed as strings in format yyyy-mm-dd
-  let dbDay = dbProduct.lastUpdated.toString();
-  dbDay = dbDay.slice(0, 10);
-  let scrapedDay = scrapedProduct.lastUpdated.toISOString().slice(0, 10);
-
-  // Measure the price difference between the new scraped product and the old db product
-  const priceDifference = Math.abs(
-    dbProduct.currentPrice - scrapedProduct.currentPrice
-  );
-
-  // If price has changed by more than $0.05, and not on the same day
-  if (priceDifference > 0.05 && dbDay != scrapedDay) {
-    // Push scraped priceHistory into existing priceHistory array
-    dbProduct.priceHistory.push(scrapedProduct.priceHistory[0]);
-
-    // Set the scrapedProduct to use the updated priceHistory
-    scrapedProduct.priceHistory = dbProduct.priceHistory;
-
-    // Return completed Product ready for uploading
-    logPriceChange(dbProduct, scrapedProduct.currentPrice);
-    return {
-      upsertType: UpsertResponse.PriceChanged,
-      product: scrapedProduct,
-    };
+export async function upsertRunToCosmosDB(run: ScrapeRun): Promise<boolean> {
+  try {
+    await runsContainer.items.upsert(run);
+    return true;
+  } catch (e: any) {
+    logError(`Unable to store scrape run ${run.id} - ${e.message}`);
+    return false;
   }
+}
 
-  // If any db categories are not included within the list of valid ones, update to scraped ones
-  else if (
-    !dbProduct.category.every((category) => {
-      const isValid = validCategories.includes(category);
-      return isValid;
-    }) ||
-    dbProduct.category === null
-  ) {
-    console.log(
-      `  Categories Changed: ${scrapedProduct.name
-        .padEnd(40)
-        .substring(0, 40)}` +
-      ` - ${dbProduct.category.join(" ")} > ${scrapedProduct.category.join(
-        " "
-      )}`
-    );
+// uploadImageRestAPI()
+// --------------------
+// Send image url to an Azure Function API
+
+export async function uploadImageRestAPI(
+  imgUrl: string,
+  product: Product
+): Promise<boolean> {
+  // Check if passed in url is valid, return if not
+  if (imgUrl === undefined || !imgUrl.includes("http")) {
+    log(colour.grey, `  Image ${product.id} has invalid url: ${imgUrl}`);
+    return false;
+  }
 
-    // Update everything but priceHistory and lastUpdated
-    scrapedProduct.priceHistory = dbProduct.priceHistory;
-    scrapedProduct.lastUpdated = dbProduct.lastUpdated;
+  // Get IMAGE_UPLOAD_FUNC_URL from env
+  // Example format:
+  // https://<func-app>.azurewebsites.net/api/ImageToS3?code=<auth-code>
+  const funcBaseUrl = process.env.IMAGE_UPLOAD_FUNC_URL;
 
-    // Return completed Product ready for uploading
-    return {
-      upsertType: UpsertResponse.InfoChanged,
-      product: scrapedProduct,
-    };
+  // Check funcBaseUrl is valid
+  if (!funcBaseUrl?.includes("http")) {
+    throw Error(
+      "\nIMAGE_UPLOAD_FUNC_URL in .env is invalid. Should be in .env :\n\n" +
+      "IMAGE_UPLOAD_FUNC_URL=https://<func-app>.azurewebsites.net/api/ImageToS3?code=<auth-code>\n\n"
+    );
   }
-
-  // Update other info
-  else if (
-    dbProduct.sourceSite !== scrapedProduct.sourceSite ||
-    dbProduct.category.join(" ") !== scrapedProduct.category.join(" ") ||
-    dbProduct.size !== scrapedProduct.size ||
-    dbProduct.unitPrice !== scrapedProduct.unitPrice ||
-    dbProduct.unitName !== scrapedProduct.unitName ||
-    dbProduct.originalUnitQuantity !== scrapedProduct.originalUnitQuantity
-  ) {
-    // Update everything but priceHistory and lastUpdated
-    scrapedProduct.priceHistory = dbProduct.priceHistory;
-    scrapedProduct.lastUpdated = dbProduct.lastUpdated;
-
-    // Return completed Product ready for uploading
-    return {
-      upsertType: UpsertResponse.InfoChanged,
-      product: scrapedProduct,
-    };
+  const restUrl = `${funcBaseUrl}&destination=s3://supermarketimages/product-images/${product.id}&source=${imgUrl}`;
+
+  // Perform http get
+  var res = await fetch(new URL(restUrl), { method: "GET" });
+  var responseMsg = await (await res.blob()).text();
+
+  if (responseMsg.includes("S3 Upload of Full-Size")) {
+    // Log for successful upload
+    log(
+      colour.grey,
+      `  New Image  : ${(product.id + ".webp").padEnd(11)} | ` +
+      `${product.name.padEnd(40).slice(0, 40)}`
+    );
+  } else if (responseMsg.includes("already exists")) {
+    // Do not log for existing images
+  } else if (responseMsg.includes("Unable to download:")) {
+    // Log for missing images
+    log(colour.grey, `  Image ${product.id} unavailable to be downloaded`);
+  } else if (responseMsg.includes("unable to be processed")) {
+    log(colour.grey, `  Image ${product.id} unable to be processed`);
   } else {
-    // Nothing has changed, only update lastChecked
-    dbProduct.lastChecked = scrapedProduct.lastChecked;
-    return {
-      upsertType: UpsertResponse.AlreadyUpToDate,
-      product: dbProduct,
-    };
+    // Log any other errors that may have occurred
+    console.log(responseMsg);
   }
-}
-
-// logPriceChange()
-// ----------------
-// Log a per product price change message,
-//  coloured green for price reduction, red for price increase
-
-export function logPriceChange(product: Product, newPrice: number) {
-  const priceIncreased = newPrice > product.currentPrice;
-  log(
-    priceIncreased ? colour.red : colour.green,
-    "  Price " +
-    (priceIncreased ? "Up   : " : "Down : ") +
-    product.name.slice(0, 47).padEnd(47) +
-    " | $" +
-    product.currentPrice.toString().padStart(4) +
-    " > $" +
-    newPrice
-  );
+  return true;
 }
 
 // customQuery()
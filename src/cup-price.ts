@@ -0,0 +1,142 @@
+// Used by index.ts for reading the site's own comparative unit price (cup price) from a listing card,
+//  and for reporting products where it disagrees with the unit price derived by unit-price.ts.
+// Mismatches are collected during the run, then written into a report file.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cheerio from "cheerio";
+import { log, colour } from "./utilities";
+import { Product, UnitPriceMismatch } from "./typings";
+
+// Multipliers from the site's cup price unit into each unit we store unit prices in
+const siteUnitConversions: { [siteUnit: string]: { unitName: string; multiplier: number } } = {
+  mg: { unitName: "kg", multiplier: 1000000 },
+  g: { unitName: "kg", multiplier: 1000 },
+  kg: { unitName: "kg", multiplier: 1 },
+  ml: { unitName: "L", multiplier: 1000 },
+  l: { unitName: "L", multiplier: 1 },
+  ea: { unitName: "ea", multiplier: 1 },
+  each: { unitName: "ea", multiplier: 1 },
+};
+
+// Stored units which are a number of items, compared with the site's price per item
+const itemsPerUnit: { [unitName: string]: number } = { "ea": 1, "tea bag": 1, "capsule": 1, "dozen": 12 };
+
+let tolerancePercent = 5;
+let collectedMismatches: UnitPriceMismatch[] = [];
+
+// establishUnitPriceCheck()
+// -------------------------
+// Sets the percentage difference allowed between our unit price and the site's cup price,
+//  from UNIT_PRICE_TOLERANCE_PERCENT in .env or the default 5%, and clears any collected mismatches
+
+export function establishUnitPriceCheck(
+  tolerance = Number(process.env.UNIT_PRICE_TOLERANCE_PERCENT || 5)
+) {
+  tolerancePercent = tolerance;
+  collectedMismatches = [];
+}
+
+// parseSiteUnitPrice()
+// --------------------
+// Finds the cup price on a product listing card, such as '$1.85 / 100g' or '$0.58 / 1ea'.
+// Returns the price and the quantity and unit it is for, or undefined if no cup price element is shown,
+//  as other prices and sizes on the card could be mistaken for a cup price
+
+export function parseSiteUnitPrice(
+  card: cheerio.Cheerio<cheerio.Element>
+): { siteUnitPrice: number; siteUnitName: string } | undefined {
+  const cupElement = card.find(".cupPrice, [class*='cup'], [class*='unit-price']").first();
+  if (cupElement.length === 0) return undefined;
+  const cupText = cupElement.text().replace(/\s+/g, " ");
+
+  const cupMatch = cupText.match(/\$\s*(\d+(?:\.\d+)?)\s*(?:\/|per)\s*(\d+(?:\.\d+)?)?\s*(mg|kg|g|ml|l|ea|each)\b/i);
+  if (!cupMatch) return undefined;
+  return {
+    siteUnitPrice: Number(cupMatch[1]),
+    siteUnitName: (cupMatch[2] || "1") + cupMatch[3].toLowerCase(),
+  };
+}
+
+// convertSiteUnitPrice()
+// ----------------------
+// Converts the site's cup price into the unit of our stored unit price, such as '$1.85 / 100g' into $18.50 /kg.
+// Returns undefined if the units can't be compared, such as a price per kg against a price per item
+
+export function convertSiteUnitPrice(
+  siteUnitPrice: number,
+  siteUnitName: string,
+  unitName: string
+): number | undefined {
+  const siteUnitMatch = siteUnitName.match(/^(\d+(?:\.\d+)?)([a-z]+)$/);
+  if (!siteUnitMatch) return undefined;
+  const conversion = siteUnitConversions[siteUnitMatch[2]];
+  if (conversion === undefined) return undefined;
+
+  const pricePerUnit = (siteUnitPrice / Number(siteUnitMatch[1])) * conversion.multiplier;
+  if (conversion.unitName === unitName) return pricePerUnit;
+  if (conversion.unitName === "ea" && itemsPerUnit[unitName] !== undefined) {
+    return pricePerUnit * itemsPerUnit[unitName];
+  }
+  return undefined;
+}
+
+// checkSiteUnitPrice()
+// --------------------
+// Compares a product's derived unit price with the site's cup price, logging and collecting a mismatch
+//  if they differ by more than the tolerance. Returns the mismatch, if any
+
+export function checkSiteUnitPrice(product: Product): UnitPriceMismatch | undefined {
+  if (product.unitPrice === undefined || product.unitName === undefined) return undefined;
+  if (product.siteUnitPrice === undefined || product.siteUnitName === undefined) return undefined;
+
+  const siteUnitPrice = convertSiteUnitPrice(product.siteUnitPrice, product.siteUnitName, product.unitName);
+  if (siteUnitPrice === undefined || siteUnitPrice <= 0) return undefined;
+
+  const differencePercent = Math.round(((product.unitPrice - siteUnitPrice) / siteUnitPrice) * 1000) / 10;
+  if (Math.abs(differencePercent) <= tolerancePercent) return undefined;
+
+  const mismatch: UnitPriceMismatch = {
+    productId: product.id,
+    name: product.name,
+    size: product.size,
+    currentPrice: product.currentPrice,
+    unitPrice: product.unitPrice,
+    unitName: product.unitName,
+    unitPriceReason: product.unitPriceReason,
+    siteUnitPrice: product.siteUnitPrice,
+    siteUnitName: product.siteUnitName,
+    convertedSiteUnitPrice: Math.round(siteUnitPrice * 100) / 100,
+    differencePercent,
+  };
+  collectedMismatches.push(mismatch);
+  log(
+    colour.orange,
+    `  Unit Price   : ${product.name.slice(0, 47).padEnd(47)} | ` +
+    `$${product.unitPrice} /${product.unitName} vs site $${product.siteUnitPrice} /${product.siteUnitName}`
+  );
+  return mismatch;
+}
+
+// getCollectedMismatches()
+// ------------------------
+
+export function getCollectedMismatches(): UnitPriceMismatch[] {
+  return collectedMismatches;
+}
+
+// writeMismatchesFile()
+// ---------------------
+// Writes this run's unit price mismatches into the reports folder, for finding parser or override errors.
+// Returns the written file path, or undefined if there were no mismatches
+
+export function writeMismatchesFile(
+  runId: string,
+  reportsDir = process.env.REPORTS_DIR || "reports"
+): string | undefined {
+  if (collectedMismatches.length === 0) return undefined;
+  fs.mkdirSync(reportsDir, { recursive: true });
+  const filePath = path.join(reportsDir, `unit-price-mismatches-${runId}.json`);
+  fs.writeFileSync(filePath, JSON.stringify(collectedMismatches, null, 2));
+  return filePath;
+}
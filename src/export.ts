@@ -0,0 +1,164 @@
+// Used by index.ts for exporting every scraped product into JSON, NDJSON or CSV files
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Allergen, DietaryTag, Product } from "./typings";
+import { allergens, dietaryTags } from "./allergens";
+
+export type ExportFormat = "json" | "ndjson" | "csv";
+export const exportFormats: ExportFormat[] = ["json", "ndjson", "csv"];
+
+// Exported products can be limited to those free of some allergens, or with all of some dietary tags
+export interface ExportFilter {
+  excludeAllergens?: Allergen[];
+  dietaryTags?: DietaryTag[];
+}
+
+// CSV columns are ordered with these first, followed by any other product fields found
+const preferredCsvColumns = [
+  "id", "name", "size", "currentPrice", "unitPrice", "unitName", "originalUnitQuantity",
+  "regularPrice", "promoPrice", "promoType", "multibuy", "availability",
+  "category", "ingredients", "allergens", "dietaryTags", "sourceSite", "lastChecked", "lastUpdated", "priceHistory",
+];
+
+let exportFormat: ExportFormat = "json";
+let splitByCategory = false;
+let exportFilter: ExportFilter = {};
+let exportedProducts: Product[] = [];
+
+// establishExport()
+// -----------------
+// Sets the export format and any filter, and clears any previously collected products
+
+export function establishExport(format: ExportFormat = "json", splitCategories = false, filter: ExportFilter = {}) {
+  if (!exportFormats.includes(format)) {
+    throw Error(`Unknown export format '${format}' - valid options are: ${exportFormats.join(", ")}`);
+  }
+  filter.excludeAllergens?.forEach((allergen) => {
+    if (!allergens.includes(allergen)) {
+      throw Error(`Unknown allergen '${allergen}' - valid options are: ${allergens.join(", ")}`);
+    }
+  });
+  filter.dietaryTags?.forEach((tag) => {
+    if (!dietaryTags.includes(tag)) {
+      throw Error(`Unknown dietary tag '${tag}' - valid options are: ${dietaryTags.join(", ")}`);
+    }
+  });
+  exportFormat = format;
+  splitByCategory = splitCategories;
+  exportFilter = filter;
+  exportedProducts = [];
+}
+
+// addProductToExport()
+// ---------------------
+// Collects a scraped product, to be written when the run is complete.
+// Returns false if the product was left out by the export filter.
+
+export function addProductToExport(product: Product): boolean {
+  if (!matchesExportFilter(product, exportFilter)) return false;
+  exportedProducts.push(product);
+  return true;
+}
+
+// matchesExportFilter()
+// ---------------------
+// Products without ingredients have unknown allergens, so are left out whenever a filter is used
+
+export function matchesExportFilter(product: Product, filter: ExportFilter): boolean {
+  const excludeAllergens = filter.excludeAllergens || [];
+  const requiredTags = filter.dietaryTags || [];
+  if (excludeAllergens.length === 0 && requiredTags.length === 0) return true;
+  if (product.allergens === undefined || product.dietaryTags === undefined) return false;
+
+  return (
+    excludeAllergens.every((allergen) => !product.allergens!.includes(allergen)) &&
+    requiredTags.every((tag) => product.dietaryTags!.includes(tag))
+  );
+}
+
+// writeExportFiles()
+// ------------------
+// Writes all collected products into one file for this run, or one file per category.
+// Files are placed in EXPORT_DIR from .env or the default exports folder.
+// Returns the paths of all written files.
+
+export function writeExportFiles(
+  runStartTime: number,
+  exportDir = process.env.EXPORT_DIR || "exports"
+): string[] {
+  fs.mkdirSync(exportDir, { recursive: true });
+
+  // Name files using the run start time, such as products-2024-06-01T09-30-00
+  const runName = "products-" + new Date(runStartTime).toISOString().slice(0, 19).replace(/:/g, "-");
+
+  // Group products into a single file, or one file per category
+  const productGroups: { [fileName: string]: Product[] } = {};
+  exportedProducts.forEach((product) => {
+    const fileNames = splitByCategory
+      ? product.category.map((category) => `${runName}-${category}`)
+      : [runName];
+    fileNames.forEach((fileName) => {
+      if (productGroups[fileName] === undefined) productGroups[fileName] = [];
+      productGroups[fileName].push(product);
+    });
+  });
+
+  return Object.keys(productGroups).map((fileName) => {
+    const filePath = path.join(exportDir, `${fileName}.${exportFormat}`);
+    fs.writeFileSync(filePath, formatProducts(productGroups[fileName], exportFormat));
+    return filePath;
+  });
+}
+
+// formatProducts()
+// ----------------
+// Converts products into the text content of an export file
+
+export function formatProducts(products: Product[], format: ExportFormat): string {
+  switch (format) {
+    case "ndjson":
+      return products.map((product) => JSON.stringify(product)).join("\n") + "\n";
+    case "csv":
+      return productsToCsv(products);
+    default:
+      return JSON.stringify(products, null, 2);
+  }
+}
+
+// productsToCsv()
+// ---------------
+// Builds a CSV with a header row, arrays of text are joined with '; ',
+//  and nested values such as priceHistory are stored as JSON
+
+export function productsToCsv(products: Product[]): string {
+  // Use preferred columns first, then any other fields found on any product
+  const columns = [...preferredCsvColumns];
+  products.forEach((product) => {
+    Object.keys(product).forEach((key) => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  });
+
+  const rows = products.map((product) =>
+    columns.map((column) => toCsvCell(product[column as keyof Product])).join(",")
+  );
+  return [columns.join(","), ...rows].join("\n") + "\n";
+}
+
+// toCsvCell()
+// -----------
+// Converts a single value into an escaped CSV cell
+
+function toCsvCell(value: unknown): string {
+  let text: string;
+  if (value === undefined || value === null) text = "";
+  else if (value instanceof Date) text = value.toISOString();
+  else if (Array.isArray(value) && value.every((item) => typeof item !== "object")) text = value.join("; ");
+  else if (typeof value === "object") text = JSON.stringify(value);
+  else text = String(value);
+
+  // Quote cells containing commas, quotes or newlines, doubling any quotes
+  if (/[",\r\n]/.test(text)) text = '"' + text.replace(/"/g, '""') + '"';
+  return text;
+}
@@ -0,0 +1,33 @@
+// Used by index.ts for storing URLs that still failed after retrying,
+//  so they can be re-run on their own with the 'retry-failed' argument
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CategorisedUrl } from "./typings";
+
+// loadFailedUrls()
+// ----------------
+// Reads URLs that failed in the previous run, returns an empty array if there were none
+
+export function loadFailedUrls(
+  filePath = process.env.FAILED_URLS_PATH || "data/failed-urls.json"
+): CategorisedUrl[] {
+  if (!fs.existsSync(filePath)) return [];
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw Error(`Unable to parse failed URLs file ${filePath}\n` + error);
+  }
+}
+
+// saveFailedUrls()
+// ----------------
+// Overwrites the failed URLs file with the URLs that failed in this run
+
+export function saveFailedUrls(
+  failedUrls: CategorisedUrl[],
+  filePath = process.env.FAILED_URLS_PATH || "data/failed-urls.json"
+) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(failedUrls, null, 2));
+}
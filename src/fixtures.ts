@@ -0,0 +1,58 @@
+// Used by index.ts for recording scraped html into fixture files, and replaying them without a browser
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Listing pages and product pages both store the full page html
+export type FixtureKind = "listings" | "products";
+
+// fixturePath()
+// -------------
+// Builds a file path for a url, using FIXTURES_DIR from .env or the default fixtures folder.
+// Pages recorded for a store location are kept in a folder for that store, as the same url shows
+//  different prices at each store.
+// Example:
+//    https://www.woolworths.co.nz/shop/browse/pantry/rice?page=1&size=48, Auckland Central
+//    fixtures/listings/auckland-central/shop-browse-pantry-rice-page-1-size-48.html
+
+export function fixturePath(
+  kind: FixtureKind,
+  url: string,
+  storeName?: string,
+  fixturesDir = process.env.FIXTURES_DIR || "fixtures"
+): string {
+  const urlKey = toFileKey(url.replace(/^https?:\/\/[^/]+\//, ""));
+  return storeName
+    ? path.join(fixturesDir, kind, toFileKey(storeName.toLowerCase()), urlKey + ".html")
+    : path.join(fixturesDir, kind, urlKey + ".html");
+}
+
+// saveFixture()
+// -------------
+// Records html for a url, and the store location it was loaded for, into the fixtures folder
+
+export function saveFixture(kind: FixtureKind, url: string, html: string, storeName?: string) {
+  const filePath = fixturePath(kind, url, storeName);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, html);
+}
+
+// loadFixture()
+// -------------
+// Reads previously recorded html for a url, returns undefined if it was never recorded
+
+export function loadFixture(kind: FixtureKind, url: string, storeName?: string): string | undefined {
+  const filePath = fixturePath(kind, url, storeName);
+  if (!fs.existsSync(filePath)) return undefined;
+  return fs.readFileSync(filePath, "utf-8");
+}
+
+// toFileKey()
+// -----------
+// Replaces anything other than letters and numbers with dashes, such as 'pantry/rice?page=1' into 'pantry-rice-page-1'
+
+function toFileKey(text: string): string {
+  return text
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
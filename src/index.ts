@@ -7,13 +7,45 @@ import * as cheerio from "cheerio";
 import _ from "lodash";
 import { setTimeout } from "timers/promises";
 
-import { establishSupabase, upsertProductToSupabase, uploadImageToLocal } from "./supabasedb.js";
-import { productOverrides } from "./product-overrides.js";
-import { CategorisedUrl, DatedPrice, Product, UpsertResponse } from "./typings";
+import { selectProductStore } from "./product-store.js";
+import { establishProductOverrides, isExcludedFromScrape, listProductOverrides } from "./product-overrides.js";
+import { establishCategoryRules } from "./categorisation.js";
 import {
-  log, colour, logProductRow, logError, readLinesFromTextFile, getTimeElapsedSince,
-  addUnitPriceToProduct, logTableHeader,
+  establishProductEntries, getProductEntryId, isProductEntryOutOfStock, playwrightElementToProduct, productEntrySelector,
+} from "./product-entries.js";
+import { establishAlerts, postAlertsToWebhook, writeAlertsFile } from "./alerts.js";
+import { loadFixture, saveFixture } from "./fixtures.js";
+import { parseNutritionFromProductPage } from "./nutrition.js";
+import { buildIngredientTree, splitIngredients } from "./ingredient-parser.js";
+import { analyseIngredients, parseAllergenDeclarationsFromProductPage } from "./allergens.js";
+import {
+  establishStoreLocations, expandUrlsPerStore, hasMultipleStoreLocations, isStoreNameMatch, parseStoreNames,
+} from "./store-locations.js";
+import {
+  getUrlPageNumber, getUrlPageSize, listingPageSelector, parsePageCount, setUrlInStockProductsOnly, setUrlPageNumber,
+} from "./pagination.js";
+import { retryWithBackoff, RetryOptions } from "./retry.js";
+import { loadFailedUrls, saveFailedUrls } from "./failed-urls.js";
+import { clearCheckpoint, createCheckpoint, loadCheckpoint, saveCheckpoint } from "./checkpoint.js";
+import { addProductToExport, establishExport, ExportFilter, ExportFormat, writeExportFiles } from "./export.js";
+import { closePagePool, establishPagePool, mapWithPagePool, waitForRateLimit } from "./page-pool.js";
+import {
+  cacheScrapedIngredients, establishIngredientsCache, getFreshIngredients, prefetchProducts, saveIngredientsCache,
+  takeReadProduct,
+} from "./ingredients-cache.js";
+import {
+  Allergen, CategorisedUrl, DatedIngredients, DietaryTag, Product, ProductStore,
+  RunCheckpoint, ScrapeRunStatus, ScrapeStats, StoreSelection, UpsertResponse, UrlSummary,
+} from "./typings";
+import {
+  addStats, buildRunSummary, buildScrapeRun, createEmptyStats, logRunSummary, writeRunSummary,
+} from "./run-summary.js";
+import {
+  log, colour, logProductRow, logError, readLinesFromTextFile, getTimeElapsedSince, logTableHeader,
 } from "./utilities.js";
+import {
+  checkSiteUnitPrice, establishUnitPriceCheck, writeMismatchesFile,
+} from "./cup-price.js";
 
 
 // Woolworths / Countdown Scraper
@@ -23,9 +55,21 @@ import {
 // Set a reasonable delay between each page load to reduce load on the server.
 const pageLoadDelaySeconds = 7;
 
+// Set how many times a failed page load is retried, with the delay doubling after each retry.
+const pageLoadRetryOptions: RetryOptions = { retries: 3, baseDelayMs: 5000, maxDelayMs: 60000 };
+
 // Set a delay when logging each product per page to the console.
 const productLogDelayMilliSeconds = 20;
 
+// Set how many product pages are scraped in parallel, and the minimum delay between each product page load.
+// These can be overridden with PAGE_POOL_SIZE and PRODUCT_PAGE_DELAY_MS in .env
+const productPagePoolSize = Number(process.env.PAGE_POOL_SIZE) || 3;
+const productPageDelayMilliSeconds = Number(process.env.PRODUCT_PAGE_DELAY_MS) || 500;
+
+// Set how many days scraped ingredients stay fresh before their product page is scraped again.
+// This can be overridden with INGREDIENTS_TTL_DAYS in .env
+const ingredientsTtlDays = Number(process.env.INGREDIENTS_TTL_DAYS) || 30;
+
 // Record start time, for logging purposes
 const startTime = Date.now();
 
@@ -36,24 +80,141 @@ let categorisedUrls = loadUrlsFile();
 export let databaseMode = false;
 export let uploadImagesMode = false;
 let headlessMode = true;
+let recordMode = false;
+let replayMode = false;
+let exportMode = false;
+let exportFormat: ExportFormat = "json";
+let splitCategoriesMode = false;
+let exportFilter: ExportFilter = {};
+let refreshIngredientsMode = false;
+let resumeMode = false;
+let trackAvailabilityMode = false;
+let selectedStoreNames: string[] | undefined = undefined;
+let allowStoreMismatchMode = false;
+let listOverridesMode = false;
+let explainCategoriesMode = false;
+let productStoreName: string | undefined = undefined;
 categorisedUrls = await handleArguments(categorisedUrls);
 
-// Establish Supabase if being used
-if (databaseMode) establishSupabase();
+// When listing product overrides, exit with an error code if any problems are found
+if (listOverridesMode) process.exit(listProductOverrides() > 0 ? 1 : 0);
+
+// Load and validate product overrides, an invalid overrides file stops the run before scraping
+const overrideCount = establishProductOverrides();
+if (overrideCount > 0) log(colour.grey, `Loaded ${overrideCount} product overrides`);
+
+// Load and validate category rules, an invalid rules file also stops the run before scraping
+const categoryRuleCount = establishCategoryRules();
+if (categoryRuleCount > 0) log(colour.grey, `Loaded ${categoryRuleCount} category rules`);
+
+// Product entries record availability when tracking it, and can explain which category rule matched
+establishProductEntries(trackAvailabilityMode, explainCategoriesMode);
+
+// When tracking availability, listings also include out of stock and unavailable products
+if (trackAvailabilityMode) {
+  categorisedUrls = categorisedUrls.map((categorisedUrl) => ({
+    ...categorisedUrl,
+    url: setUrlInStockProductsOnly(categorisedUrl.url, false),
+  }));
+}
+
+// Scrape every url once for each store location, from STORE_NAMES in .env or the 'stores=' argument
+const storeLocations = establishStoreLocations(selectedStoreNames);
+categorisedUrls = expandUrlsPerStore(categorisedUrls);
+if (storeLocations.length > 1) {
+  log(colour.yellow, `Scraping ${storeLocations.length} store locations: ${storeLocations.join(", ")}`);
+}
+
+// Continue the last incomplete run if resuming, otherwise start a new run.
+// Resumed runs keep their original run ID, urls, failed urls and stats.
+const previousCheckpoint = resumeMode ? loadCheckpoint() : undefined;
+const runCheckpoint: RunCheckpoint = previousCheckpoint ?? createCheckpoint(categorisedUrls, startTime);
+if (previousCheckpoint !== undefined) {
+  categorisedUrls = previousCheckpoint.categorisedUrls;
+  log(
+    colour.yellow,
+    `Resuming run ${previousCheckpoint.runId} from url ` +
+    `${previousCheckpoint.completedUrlCount + 1}/${categorisedUrls.length}`
+  );
+} else if (resumeMode) {
+  logError("No incomplete run found to resume - Starting a new run");
+}
+
+// Prepare export files if being used
+if (exportMode) establishExport(exportFormat, splitCategoriesMode, exportFilter);
+
+// Derived unit prices are cross-checked against the site's unit price as products are scraped
+establishUnitPriceCheck();
 
-// Establish playwright browser
+// Establish the selected database backend if being used
+let productStore: ProductStore;
+if (databaseMode) {
+  productStore = selectProductStore(productStoreName);
+  await productStore.establish();
+
+  // Load the watchlist, price changes of watched products are alerted during upsert
+  const watchedCount = establishAlerts();
+  if (watchedCount > 0) log(colour.yellow, `Watching ${watchedCount} watchlist entries for price alerts`);
+}
+
+// Use cached ingredients from the database or a local file, replay mode always re-parses fixtures
+establishIngredientsCache(
+  ingredientsTtlDays,
+  refreshIngredientsMode || replayMode,
+  databaseMode ? productStore : undefined
+);
+
+// Establish playwright browser, replay mode reads recorded html instead
 let browser: playwright.Browser;
 let page: playwright.Page;
-browser = await establishPlaywrightPage(headlessMode);
-
-// Select store location
-await selectStoreByLocationName();
+if (!replayMode) {
+  browser = await establishPlaywrightPage(headlessMode);
+
+  // Open a pool of pages for scraping product pages in parallel, sharing the selected store location
+  await establishPagePool(
+    page.context(),
+    productPagePoolSize,
+    productPageDelayMilliSeconds,
+    routePlaywrightExclusions
+  );
+}
 
 // Main Loop - Scrape through each page
+const failedUrls: CategorisedUrl[] = runCheckpoint.failedUrls;
 await scrapeAllPageURLs();
 
+// Store URLs that still failed after retrying, to be re-run with 'retry-failed'.
+// If every url was completed, the checkpoint is no longer needed
+if (!replayMode) {
+  if (runCheckpoint.completedUrlCount >= categorisedUrls.length) clearCheckpoint();
+  saveFailedUrls(failedUrls);
+  if (failedUrls.length > 0) {
+    logError(`${failedUrls.length} pages failed - these can be re-run with the 'retry-failed' argument`);
+  }
+}
+
+// Write any products whose derived unit price disagreed with the site's unit price
+if (databaseMode) {
+  const mismatchesFilePath = writeMismatchesFile(runCheckpoint.runId);
+  if (mismatchesFilePath) log(colour.orange, `Unit price mismatches written to ${mismatchesFilePath}`);
+}
+
+// Write any price alerts raised during this run, and post them to the alert webhook if set
+if (databaseMode) {
+  const alertsFilePath = writeAlertsFile(runCheckpoint.runId);
+  if (alertsFilePath) log(colour.magenta, `Price alerts written to ${alertsFilePath}`);
+  if (await postAlertsToWebhook(runCheckpoint.runId)) log(colour.magenta, `Price alerts posted to webhook`);
+}
+
 // Program End and Cleanup
-browser.close();
+await closePagePool();
+browser?.close();
+if (databaseMode) await productStore.close();
+if (exportMode) {
+  writeExportFiles(startTime).forEach((filePath) => {
+    log(colour.sky, `Exported products to ${filePath}`);
+  });
+}
 log(
   colour.sky,
   `\nAll Pages Completed = Total Time Elapsed ${getTimeElapsedSince(startTime)} \n`
@@ -90,101 +251,222 @@ async function scrapeAllPageURLs() {
   // Log loop start
   log(
     colour.yellow,
-    `${categorisedUrls.length} pages to be scraped`.padEnd(32) +
+    `${categorisedUrls.length} urls to be scraped`.padEnd(32) +
     `${pageLoadDelaySeconds}s delay between scrapes`.padEnd(32) +
-    (databaseMode ? "(Database Mode)" : "(Dry Run Mode)")
+    (replayMode ? "(Replay Mode) " : recordMode ? "(Record Mode) " : "") +
+    (databaseMode ? `(Database Mode - ${productStore.name})` : "(Dry Run Mode)")
   );
 
-  // Loop through each page URL to scrape
-  for (let i = 0; i < categorisedUrls.length; i++) {
+  // Store the run in the database before scraping, so interrupted runs are still recorded
+  await storeScrapeRun("running");
+
+  // Loop through each page URL to scrape, skipping any already completed when resuming
+  let connectionFailed = false;
+  let storeMismatched = false;
+  let selectedStoreName: string | undefined = undefined;
+  for (let i = runCheckpoint.completedUrlCount; i < categorisedUrls.length; i++) {
     const categorisedUrl = categorisedUrls[i];
-    const url = categorisedUrl.url;
+
+    // Change store location when moving onto the urls of the next store.
+    // If the site didn't select the requested store, the run is stopped so it can be resumed later,
+    //  unless 'allow-store-mismatch' is set, in which case the mismatch is only recorded in the run
+    if (categorisedUrl.storeName !== undefined && categorisedUrl.storeName !== selectedStoreName) {
+      if (!replayMode) {
+        const storeSelection = await selectStoreByLocationName(categorisedUrl.storeName);
+        if (storeSelection !== undefined) runCheckpoint.storeSelections.push(storeSelection);
+        if (storeSelection !== undefined && !storeSelection.matched && !allowStoreMismatchMode) {
+          logError(
+            `Stopping run - store location '${categorisedUrl.storeName}' could not be selected. ` +
+            `Use 'allow-store-mismatch' to continue scraping anyway`
+          );
+          storeMismatched = true;
+          break;
+        }
+      }
+      selectedStoreName = categorisedUrl.storeName;
+    }
+
+    // Track stats and timing for this url, for the run summary
+    const urlStartTime = Date.now();
+    const urlSummary: UrlSummary = {
+      url: categorisedUrl.url,
+      categories: categorisedUrl.categories,
+      storeName: categorisedUrl.storeName,
+      pagesScraped: 0,
+      failedPages: 0,
+      durationSeconds: 0,
+      stats: createEmptyStats(),
+    };
 
     // Log current scrape sequence and the total number of pages to scrape
-    const shortUrl = url.substring(0, url.indexOf("?")).replace("https://", "");
+    const shortUrl = categorisedUrl.url
+      .substring(0, categorisedUrl.url.indexOf("?"))
+      .replace("https://", "");
     log(
       colour.yellow,
-      `\n[${i + 1}/${categorisedUrls.length}] ${shortUrl}`
+      `\n[${i + 1}/${categorisedUrls.length}] ${shortUrl}` +
+      (categorisedUrl.storeName ? ` - ${categorisedUrl.storeName}` : "")
     );
 
-    try {
-      // Open page with url options now set
-      await page.goto(url);
-
-      // Wait and page down multiple times to further trigger any lazy loads
-      for (let pageDown = 0; pageDown < 5; pageDown++) {
-        // create a random number between 500 and 1500
-        const timeBetweenPgDowns = Math.random() * 1000 + 500;
-        await page.waitForTimeout(timeBetweenPgDowns);
-        await page.keyboard.press("PageDown");
-      }
+    // Scrape the first result page, which is used to find the total number of result pages,
+    //  then scrape any further pages up to the optional max-pages set in urls.txt.
+    // The first page is usually page 1, unless re-running a single failed page.
+    const firstPageNumber = getUrlPageNumber(categorisedUrl.url);
+    let lastPageNumber = firstPageNumber;
+    for (let pageNumber = firstPageNumber; pageNumber <= lastPageNumber; pageNumber++) {
+      const url = setUrlPageNumber(categorisedUrl.url, pageNumber);
+
+      try {
+        // Load html into Cheerio for DOM selection, retrying with backoff if the page fails to load
+        const html = await retryWithBackoff(
+          () => getListingPageHtml(url, categorisedUrl.storeName),
+          replayMode ? { ...pageLoadRetryOptions, retries: 0 } : pageLoadRetryOptions,
+          (error, retryNumber, delayMs) => logError(
+            `Page failed to load - Retry ${retryNumber}/${pageLoadRetryOptions.retries} ` +
+            `in ${Math.round(delayMs / 1000)}s\n` + error
+          )
+        );
+        const $ = cheerio.load(html);
+        const productEntries = $(productEntrySelector);
+
+        if (pageNumber === firstPageNumber) {
+          lastPageNumber = parsePageCount(html, getUrlPageSize(url));
+          if (categorisedUrl.maxPages !== undefined) {
+            lastPageNumber = Math.min(lastPageNumber, firstPageNumber + categorisedUrl.maxPages - 1);
+          }
+        }
 
-      // Set page timeout to 15 seconds
-      await page.setDefaultTimeout(15000);
-
-      // Wait for product-price h3 html element to dynamically load in,
-      //  this is required to see product data
-      await page.waitForSelector("product-price h3");
-
-      // Load html into Cheerio for DOM selection
-      const html = await page.innerHTML("product-grid");
-      const $ = cheerio.load(html);
-      const productEntries = $("cdx-card a.product-entry");
-
-      // Log the number of products found, time elapsed, category
-      log(
-        colour.yellow,
-        `${productEntries.length} product entries found`.padEnd(32) +
-        `Time Elapsed: ${getTimeElapsedSince(startTime)}`.padEnd(32) +
-        `Category: ${_.startCase(categorisedUrl.categories.join(" - "))}`
-      );
-
-      // Log table header
-      if (!databaseMode) logTableHeader();
-
-      // Store number of items processed for logging purposes
-      let perPageLogStats = {
-        newProducts: 0,
-        priceChanged: 0,
-        infoUpdated: 0,
-        alreadyUpToDate: 0,
-      }
-      // Get product page URLs
-      const productPageUrls = productEntries.map((i, elem) => $(elem).attr('href')).get();
-      // Scrape ingredients from product pages
-      const ingredientsData = await scrapeIngredientsFromProductPages(productPageUrls);
-      // Start nested loop which loops through each product entry
-      perPageLogStats = await processFoundProductEntries(categorisedUrl, productEntries, perPageLogStats, ingredientsData);
-
-      // After scraping every item is complete, log how many products were scraped
-      if (databaseMode) {
+        // Log the page number, number of products found, time elapsed, category
         log(
-          colour.blue,
-          `Supabase: ${perPageLogStats.newProducts} new products, ` +
-          `${perPageLogStats.priceChanged} updated prices, ` +
-          `${perPageLogStats.infoUpdated} updated info, ` +
-          `${perPageLogStats.alreadyUpToDate} already up-to-date`
+          colour.yellow,
+          `Page ${pageNumber}/${lastPageNumber} - ` +
+          `${productEntries.length} product entries found`.padEnd(32) +
+          `Time Elapsed: ${getTimeElapsedSince(startTime)}`.padEnd(32) +
+          `Category: ${_.startCase(categorisedUrl.categories.join(" - "))}`
         );
-      }
 
-      // Delay between each page load
-      await setTimeout(pageLoadDelaySeconds * 1000);
+        // Stop paging early if the site returns an empty page
+        if (productEntries.length === 0) break;
+
+        // Log table header
+        if (!databaseMode) logTableHeader();
+
+        // Store number of items processed for logging purposes
+        let perPageLogStats: ScrapeStats = createEmptyStats();
+        // Get ingredients from the cache, or by scraping product pages
+        const ingredientsData = await getIngredientsForProductEntries($, productEntries);
+        // Start nested loop which loops through each product entry
+        perPageLogStats = await processFoundProductEntries(categorisedUrl, productEntries, perPageLogStats, ingredientsData);
+
+        // Add page stats into the url and run totals
+        addStats(urlSummary.stats, perPageLogStats);
+        addStats(runCheckpoint.stats, perPageLogStats);
+        urlSummary.pagesScraped++;
+
+        // After scraping every item is complete, log how many products were scraped
+        if (databaseMode) {
+          log(
+            colour.blue,
+            `${productStore.name}: ${perPageLogStats.newProducts} new products, ` +
+            `${perPageLogStats.priceChanged} updated prices, ` +
+            `${perPageLogStats.infoUpdated} updated info, ` +
+            `${perPageLogStats.alreadyUpToDate} already up-to-date`
+          );
+        }
+
+        // Delay between each page load
+        if (!replayMode) await setTimeout(pageLoadDelaySeconds * 1000);
 
-    } catch (error: unknown) {
-      if (typeof error === 'string') {
-        if (error.includes("NS_ERROR_CONNECTION_REFUSED")) {
-          logError("Connection Failed - Check Firewall\n" + error);
-          return;
+      } catch (error: unknown) {
+        if (typeof error === 'string') {
+          if (error.includes("NS_ERROR_CONNECTION_REFUSED")) {
+            logError("Connection Failed - Check Firewall\n" + error);
+            connectionFailed = true;
+            break;
+          }
         }
+        logError(
+          (replayMode
+            ? "Unable to replay page - Skipping this page\n"
+            : `Page failed after ${pageLoadRetryOptions.retries} retries - Skipping this page\n`) + error
+        );
+
+        // Record the failed page, a failed first page means the whole url is re-run
+        urlSummary.failedPages++;
+        failedUrls.push(
+          pageNumber === firstPageNumber
+            ? categorisedUrl
+            : { ...categorisedUrl, url: url, maxPages: 1 }
+        );
       }
-      logError(
-        "Page Timeout after 15 seconds - Skipping this page\n" + error
-      );
     }
+
+    // Stop the run without marking this url as complete, so it can be resumed later
+    if (connectionFailed) break;
+
+    // Save progress once every page of this url is complete, so the run can be resumed from here
+    urlSummary.durationSeconds = Math.round((Date.now() - urlStartTime) / 1000);
+    runCheckpoint.urlSummaries.push(urlSummary);
+    runCheckpoint.completedUrlCount = i + 1;
+    if (!replayMode) saveCheckpoint(runCheckpoint);
+    await storeScrapeRun("running");
   }
+  await storeScrapeRun(storeMismatched ? "aborted" : connectionFailed ? "interrupted" : "completed");
+
+  // Write the run summary report and log it as a final table
+  const runSummary = buildRunSummary(runCheckpoint, Date.now());
+  logRunSummary(runSummary);
+  log(colour.sky, `Run summary written to ${writeRunSummary(runSummary)}`);
 }
 
 
+// storeScrapeRun()
+// ----------------
+// Inserts or updates this run in the database, including per-url outcomes and stats so far
+
+async function storeScrapeRun(status: ScrapeRunStatus) {
+  if (databaseMode) await productStore.upsertRun(buildScrapeRun(runCheckpoint, status, Date.now()));
+}
+
+
+// getListingPageHtml()
+// --------------------
+// Opens a listing page and returns its html, once the product-grid has loaded.
+// Record mode also saves the html as a fixture, replay mode loads the fixture without a browser.
+
+async function getListingPageHtml(url: string, storeName?: string): Promise<string> {
+  if (replayMode) {
+    const html = loadFixture("listings", url, storeName);
+    if (html === undefined) throw "No recorded fixture found for " + url;
+    return html;
+  }
+
+  // Open page with url options now set
+  await page.goto(url);
+
+  // Wait and page down multiple times to further trigger any lazy loads
+  for (let pageDown = 0; pageDown < 5; pageDown++) {
+    // create a random number between 500 and 1500
+    const timeBetweenPgDowns = Math.random() * 1000 + 500;
+    await page.waitForTimeout(timeBetweenPgDowns);
+    await page.keyboard.press("PageDown");
+  }
+
+  // Set page timeout to 15 seconds
+  await page.setDefaultTimeout(15000);
+
+  // Wait for product-price h3 html element to dynamically load in,
+  //  this is required to see product data
+  await page.waitForSelector("product-price h3");
+
+  // Keep only the product grid, result count and pagination html, so cheerio doesn't parse the whole document
+  const html = (
+    await page.$$eval(listingPageSelector, (elements) => elements.map((element) => element.outerHTML))
+  ).join("\n");
+  if (recordMode) saveFixture("listings", url, html, storeName);
+  return html;
+}
+
 // processFoundProductEntries
 // --------------------------
 // Loops through each product entry and scrapes pricing and other info.
@@ -194,30 +476,89 @@ async function processFoundProductEntries
   (
     categorisedUrl: CategorisedUrl,
     productEntries: cheerio.Cheerio<cheerio.Element>,
-    perPageLogStats: {
-      newProducts: number;
-      priceChanged: number;
-      infoUpdated: number;
-      alreadyUpToDate: number;
-    },
-    ingredientsData: { [url: string]: string[] }) {
+    perPageLogStats: ScrapeStats,
+    ingredientsData: { [url: string]: DatedIngredients }) {
 
   // Loop through each product entry
   for (let i = 0; i < productEntries.length; i++) {
     const productEntryElement = productEntries[i];
+
+    // Skip products which are excluded in the product overrides file
+    const productId = getProductEntryId(productEntryElement);
+    if (productId !== undefined && isExcludedFromScrape(productId)) continue;
     const fullProductUrl = `https://www.countdown.co.nz${productEntryElement.attribs['href']}`;
-    const ingredients = ingredientsData[fullProductUrl] || [];
+    const datedIngredients = ingredientsData[fullProductUrl];
     const product = playwrightElementToProduct(
       productEntryElement,
       categorisedUrl.categories,
-      ingredients
+      datedIngredients?.ingredients || [],
+      categorisedUrl.url
     );
+    if (product !== undefined && datedIngredients !== undefined) {
+      product.ingredientsLastChecked = datedIngredients.checkedAt;
+      if (datedIngredients.nutrition !== undefined) product.nutrition = datedIngredients.nutrition;
+
+      // Derive the ingredient tree, allergens and dietary tags whenever ingredients are known
+      if (product.ingredients.length > 0) product.ingredientTree = buildIngredientTree(product.ingredients);
+      if (datedIngredients.allergenDeclarations !== undefined) {
+        product.allergenDeclarations = datedIngredients.allergenDeclarations;
+      }
+      if (product.ingredients.length > 0 || datedIngredients.allergenDeclarations?.length) {
+        Object.assign(product, analyseIngredients(product.ingredients, datedIngredients.allergenDeclarations));
+      }
+    }
+
+    // Reference the run that last checked this product
+    if (product !== undefined) product.lastCheckedRunId = runCheckpoint.runId;
+
+    // Report products whose derived unit price disagrees with the site's unit price
+    if (product !== undefined && product.currentPrice > 0) checkSiteUnitPrice(product);
+
+    // Record the price for the store location being scraped, when comparing prices between store locations
+    if (
+      product !== undefined &&
+      categorisedUrl.storeName !== undefined &&
+      hasMultipleStoreLocations() &&
+      product.currentPrice > 0
+    ) {
+      product.storePrices = {
+        [categorisedUrl.storeName]: {
+          currentPrice: product.currentPrice,
+          lastUpdated: product.lastUpdated,
+          lastChecked: product.lastChecked,
+          priceHistory: product.priceHistory,
+        },
+      };
+    }
     //log(colour.cyan, `Ingredients URL: ${fullProductUrl}`);
     //log(colour.cyan, `Ingredients: ${JSON.stringify(ingredientsData[fullProductUrl])}`);
 
-    if (databaseMode && product !== undefined) {
-      // Insert or update item into supabase
-      const response = await upsertProductToSupabase(product);
+    // Count products that were scraped, or were skipped for being out of stock or failing validation.
+    // When tracking availability, out of stock products are scraped but only counted as out of stock
+    if (product !== undefined && product.availability !== undefined && product.availability !== "in-stock") {
+      perPageLogStats.outOfStock++;
+    }
+    else if (product !== undefined) perPageLogStats.scraped++;
+    else if (isProductEntryOutOfStock(productEntryElement)) perPageLogStats.outOfStock++;
+    else perPageLogStats.unscrapable++;
+
+    // Reuse the database product read when checking for cached ingredients, if any
+    const dbProduct = databaseMode && product !== undefined ? takeReadProduct(product.id) : undefined;
+
+    // Products scraped without a price can only update the availability of products already stored
+    let isUpsertable = product !== undefined && product.currentPrice > 0;
+    if (databaseMode && product !== undefined && !isUpsertable) {
+      try {
+        isUpsertable = (dbProduct ?? (await productStore.readProduct(product.id))) !== undefined;
+      } catch (error) {
+        logError((error as Error).message);
+        perPageLogStats.failed++;
+      }
+    }
+
+    if (databaseMode && product !== undefined && isUpsertable) {
+      // Insert or update item into the selected database
+      const response = await productStore.upsertProduct(product, categorisedUrl.storeName, dbProduct);
 
       // Use response to update logging counters
       switch (response) {
@@ -233,24 +574,30 @@ async function processFoundProductEntries
         case UpsertResponse.PriceChanged:
           perPageLogStats.priceChanged++;
           break;
+        case UpsertResponse.Failed:
+          perPageLogStats.failed++;
+          break;
         default:
           break;
       }
 
-      // Upload image to Azure Function
+      // Upload image using the selected database's image storage
       if (uploadImagesMode) {
         // Get image url using provided base url, product ID, and hi-res query parameters
         const imageUrlBase = "https://assets.woolworths.com.au/images/2010/";
         const imageUrlExtensionAndQueryParams = ".jpg?impolicy=wowcdxwbjbx&w=900&h=900";
         const imageUrl = imageUrlBase + product.id + imageUrlExtensionAndQueryParams;
 
-        await uploadImageToLocal(imageUrl!, product);
+        await productStore.uploadImage(imageUrl!, product);
       }
     } else if (!databaseMode && product !== undefined) {
       // When doing a dry run, log product name - size - price in table format
       logProductRow(product!);
     }
 
+    // Collect product to be written into export files at the end of the run
+    if (exportMode && product !== undefined) addProductToExport(product);
+
     // Add a tiny delay between each product loop.
     // This makes printing the log more readable
     await setTimeout(productLogDelayMilliSeconds);
@@ -261,72 +608,136 @@ async function processFoundProductEntries
 }
 
 
+// getIngredientsForProductEntries()
+// ---------------------------------
+// Uses cached ingredients for products checked within the ingredients TTL,
+//  and scrapes product pages for the rest. Returns dated ingredients keyed by full product url.
+
+async function getIngredientsForProductEntries(
+  $: cheerio.CheerioAPI,
+  productEntries: cheerio.Cheerio<cheerio.Element>
+): Promise<{ [url: string]: DatedIngredients }> {
+  const ingredientsData: { [url: string]: DatedIngredients } = {};
+  const productIdsByUrl: { [url: string]: string } = {};
+  const uncachedUrls: string[] = [];
+
+  // Read the stored products of this page together, rather than one read per product
+  await prefetchProducts(
+    productEntries
+      .toArray()
+      .map((productEntryElement) => getProductEntryId(productEntryElement))
+      .filter((id): id is string => id !== undefined && !isExcludedFromScrape(id))
+  );
+
+  for (const productEntryElement of productEntries.toArray()) {
+    const url = $(productEntryElement).attr("href");
+    const id = getProductEntryId(productEntryElement);
+    if (url === undefined || (id !== undefined && isExcludedFromScrape(id))) continue;
+
+    const cachedIngredients = id ? await getFreshIngredients(id) : undefined;
+    if (cachedIngredients !== undefined) {
+      ingredientsData[`https://www.countdown.co.nz${url}`] = cachedIngredients;
+    } else {
+      uncachedUrls.push(url);
+      if (id) productIdsByUrl[`https://www.countdown.co.nz${url}`] = id;
+    }
+  }
+
+  if (productEntries.length > uncachedUrls.length) {
+    log(
+      colour.grey,
+      `${productEntries.length - uncachedUrls.length} products have fresh cached ingredients, ` +
+      `${uncachedUrls.length} product pages to scrape`
+    );
+  }
+
+  // Scrape remaining product pages and cache the results
+  const scrapedIngredients = await scrapeIngredientsFromProductPages(uncachedUrls);
+  Object.keys(scrapedIngredients).forEach((fullUrl) => {
+    ingredientsData[fullUrl] = scrapedIngredients[fullUrl];
+    const id = productIdsByUrl[fullUrl];
+    if (id) cacheScrapedIngredients(id, scrapedIngredients[fullUrl]);
+  });
+  saveIngredientsCache();
+
+  return ingredientsData;
+}
+
 // scrapeIngredientsFromProductPages()
 // ---------------
-// Goes to each product page URL, scrapes the ingredients, and returns them
-async function scrapeIngredientsFromProductPages(productPageUrls: string[]): Promise<{ [url: string]: string[] }> {
-  const ingredientsData: { [url: string]: string[] } = {};
+// Goes to each product page URL, scrapes the ingredients, and returns them with the date checked.
+// Product pages are loaded in parallel using the page pool.
+// Record mode also saves each page as a fixture, replay mode loads the fixtures without a browser.
 
-  for (const url of productPageUrls) {
+async function scrapeIngredientsFromProductPages(
+  productPageUrls: string[]
+): Promise<{ [url: string]: DatedIngredients }> {
+  const ingredientsData: { [url: string]: DatedIngredients } = {};
+
+  const scrapeProductPage = async (url: string, productPage?: playwright.Page) => {
+    const fullUrl = `https://www.countdown.co.nz${url}`;
     try {
-      // Go to the product page
-      const fullUrl = `https://www.countdown.co.nz${url}`;
-      await page.goto(fullUrl);
-      await page.waitForTimeout(2000); // Add a delay for page load
-
-      // Get the HTML content of the page
-      const html = await page.content();
-      const $ = cheerio.load(html);
-
-      // Scrape the ingredients from the page (assuming ingredients are in a specific selector)
-      const ingredientsList: string[] = [];
-      const hasAccordion = await page.$('cdx-accordion cdx-accordion-item:nth-child(2) div div div');
-      if (hasAccordion) {
-        const ingredientsText = await page.evaluate(() => {
-          const element = document.evaluate(
-            '/html/body/wnz-content/div/wnz-product-detail/div/main/div[4]/div[2]/cdx-accordion/cdx-accordion-item[2]/div/div/div/text()',
-            document,
-            null,
-            XPathResult.STRING_TYPE,
-            null
-          ).stringValue;
-          return element;
-        });
-        if (ingredientsText) {
-            let insideBracket = false;
-            let currentIngredient = '';
-            for (let i = 0; i < ingredientsText.length; i++) {
-            const char = ingredientsText[i];
-            if (char === '(') {
-              insideBracket = true;
-            } else if (char === ')') {
-              insideBracket = false;
-            }
-            if (char === ',' && !insideBracket) {
-              ingredientsList.push(currentIngredient.trim());
-              currentIngredient = '';
-            } else {
-              currentIngredient += char;
-            }
-            }
-            ingredientsList.push(currentIngredient.trim());
-        }
-        ingredientsData[fullUrl] = ingredientsList;
+      let html: string | undefined;
+      if (replayMode) {
+        html = loadFixture("products", fullUrl);
       } else {
-        ingredientsData[fullUrl] = [];
+        // Go to the product page, waiting for the shared rate limit first
+        await waitForRateLimit();
+        await productPage!.goto(fullUrl);
+        await productPage!.waitForTimeout(2000); // Add a delay for page load
+
+        // Get the HTML content of the page
+        html = await productPage!.content();
+        if (recordMode) saveFixture("products", fullUrl, html);
+      }
+
+      // Only pages that were loaded are dated, so missing pages are retried on the next run
+      if (html !== undefined) {
+        ingredientsData[fullUrl] = {
+          ingredients: parseIngredientsFromProductPage(html),
+          nutrition: parseNutritionFromProductPage(html),
+          allergenDeclarations: parseAllergenDeclarationsFromProductPage(html),
+          checkedAt: new Date(),
+        };
       }
     } catch (error) {
       console.error(`Error scraping ${url}:`, error);
     }
+  };
+
+  if (replayMode) {
+    for (const url of productPageUrls) await scrapeProductPage(url);
+  } else {
+    await mapWithPagePool(productPageUrls, (productPage, url) => scrapeProductPage(url, productPage));
   }
 
   return ingredientsData;
 }
 
+// parseIngredientsFromProductPage()
+// ---------------------------------
+// Takes the html of a product page and returns the ingredients list,
+//  splitting on commas that are outside of brackets, including nested brackets
+
+export function parseIngredientsFromProductPage(html: string): string[] {
+  const $ = cheerio.load(html);
+
+  // Ingredients are the direct text within the 2nd accordion item
+  const ingredientsText = $("cdx-accordion cdx-accordion-item:nth-child(2) > div > div > div")
+    .first()
+    .contents()
+    .filter((i, node) => node.type === "text")
+    .first()
+    .text();
+
+  return splitIngredients(ingredientsText);
+}
+
 
 // handleArguments()
 // -----------------
 // Handle command line arguments. Can be reverse mode, dry-run-mode, custom url, or categories
+// Database mode can select a backend with db=supabase, db=cosmosdb, db=sqlite or db=local
 
 function handleArguments(categorisedUrls): CategorisedUrl[] {
   if (process.argv.length > 2) {
@@ -337,13 +748,61 @@ function handleArguments(categorisedUrls): CategorisedUrl[] {
     let potentialUrl = "";
     userArgs.forEach(async (arg) => {
       if (arg === "db") databaseMode = true;
+      else if (arg.startsWith("db=")) {
+        databaseMode = true;
+        productStoreName = arg.replace("db=", "");
+      }
       else if (arg === "images") uploadImagesMode = true;
       else if (arg === "headless") headlessMode = true // is already default
       else if (arg === "headed") headlessMode = false
 
+      // Record scraped html into fixture files, or replay them without launching a browser
+      else if (arg === "record") recordMode = true;
+      else if (arg === "replay") replayMode = true;
+
+      // Export all scraped products into json, ndjson or csv files, optionally one file per category
+      else if (arg === "export") exportMode = true;
+      else if (arg.startsWith("export=")) {
+        exportMode = true;
+        exportFormat = arg.replace("export=", "") as ExportFormat;
+      }
+      else if (arg === "split-categories") splitCategoriesMode = true;
+
+      // Only export products free of these allergens, or with all of these dietary tags
+      else if (arg.startsWith("exclude-allergens=")) {
+        exportFilter.excludeAllergens = arg.replace("exclude-allergens=", "").split(",") as Allergen[];
+      }
+      else if (arg.startsWith("dietary=")) {
+        exportFilter.dietaryTags = arg.replace("dietary=", "").split(",") as DietaryTag[];
+      }
+
+      // Scrape every product page for ingredients, even if cached ingredients are still fresh
+      else if (arg === "refresh-ingredients") refreshIngredientsMode = true;
+
+      // Also scrape out of stock products, recording their availability
+      else if (arg === "availability") trackAvailabilityMode = true;
+
+      // List and lint the product overrides file, without scraping
+      else if (arg === "overrides") listOverridesMode = true;
+
+      // Log which category rule, if any, assigned the categories of each product
+      else if (arg === "explain-categories") explainCategoriesMode = true;
+
+      // Scrape a subset of store locations, instead of every store in STORE_NAMES
+      else if (arg.startsWith("stores=")) selectedStoreNames = parseStoreNames(arg.replace("stores=", ""));
+
+      // Continue scraping when a store location couldn't be selected, instead of stopping the run
+      else if (arg === "allow-store-mismatch") allowStoreMismatchMode = true;
+
       // Any arg containing .co.nz will replaced the URLs text file to be scraped.
       else if (arg.includes(".co.nz")) potentialUrl += arg;
 
+      // Only re-run the pages that failed in the previous run
+      else if (arg === "retry-failed") categorisedUrls = loadFailedUrls();
+
+      // Continue the last incomplete run from its last completed url
+      else if (arg === "resume") resumeMode = true;
+
       // Reverse the order of the URLs to be scraped, starting from the bottom
       else if (arg === "reverse") categorisedUrls = categorisedUrls.reverse();
       // else if (arg === "custom") {
@@ -385,14 +844,16 @@ async function establishPlaywrightPage(headless = true) {
 
 // selectStoreByLocationName()
 // ---------------------------
-// Selects a store location by typing in the specified location address
+// Selects a store location by typing in the specified location address.
+// The active store is then read back and compared with the requested location,
+//  returns the resolved store, or undefined if no location was set
 
-async function selectStoreByLocationName(locationName: string = "") {
+async function selectStoreByLocationName(locationName: string = ""): Promise<StoreSelection | undefined> {
   // If no location was passed in, also check .env for STORE_NAME
   if (locationName === "") {
     if (process.env.STORE_NAME) locationName = process.env.STORE_NAME;
     // If STORE_NAME is also not present, skip store location selection
-    else return;
+    else return undefined;
   }
 
   log(colour.yellow, "Selecting Store Location..");
@@ -405,17 +866,24 @@ async function selectStoreByLocationName(locationName: string = "") {
     });
     await page.waitForSelector("fieldset div div p button");
   } catch (error) {
-    logError("Location selection page timed out - Using default location instead");
-    return;
+    logError("Location selection page timed out");
+    return createStoreSelection(locationName, undefined);
   }
 
-  const oldLocation = await page
-    .locator("fieldset div div p strong")
-    .innerText();
+  // Read the current location, then click change address modal.
+  // A missing element only skips this store, instead of stopping the run
+  let oldLocation: string;
+  try {
+    oldLocation = await page
+      .locator("fieldset div div p strong")
+      .innerText();
+    await page.locator("fieldset div div p button").click();
+    await page.waitForSelector("form-suburb-autocomplete form-input input");
+  } catch (error) {
+    logError("Location selection modal could not be opened");
+    return createStoreSelection(locationName, undefined);
+  }
 
-  // Click change address modal
-  await page.locator("fieldset div div p button").click();
-  await page.waitForSelector("form-suburb-autocomplete form-input input");
   try {
     // Type in address, wait 1.5s for auto-complete to populate entries
     await page
@@ -431,182 +899,72 @@ async function selectStoreByLocationName(locationName: string = "") {
 
     // Click save location button
     await page.getByText("Save and Continue Shopping").click();
-    log(
-      colour.yellow,
-      "Changed Location from " + oldLocation + " to " + locationName + "\n"
-    );
 
     // Ensure location is saved before moving on
     await page.waitForTimeout(2000);
   } catch {
     // Catch timeout if no locations are found using the provided env value.
-    logError(
-      `Store Location:${locationName} not found. Using default instead.`
-    );
+    logError(`Store Location:${locationName} not found.`);
   }
-}
-
-// playwrightElementToProduct()
-// ----------------------------
-// Takes a playwright html element for 'a.product-entry', builds and returns a Product
-
-export function playwrightElementToProduct(
-  element: cheerio.Element,
-  categories: string[],
-  ingredients: string[]
-): Product | undefined {
-  const $ = cheerio.load(element);
-
-  let product: Product = {
-    // Extract ID from h3 tag and remove non-numbers
-    id: $(element).find("h3").first().attr("id")?.replace(/\D/g, "") as string,
-
-    // Original title is all lower-case and needs to be made into start-case
-    name: _.startCase(
-      $(element)
-        .find("h3")
-        .first()
-        .text()
-
-        // Clean unnecessary words from titles
-        .replace("fresh fruit", "")
-        .replace("fresh vegetable", "")
-
-        // Clean variable weights from meat products, such 'Pork Loin Chops 0.4-0.9kg 3-4pcs'
-        .replace(/(\d\.\d-\d\.\d)kg (\d-\d)pcs/, "")
-
-        // Clean excess whitespace
-        .replace("  ", " ")
-        .trim()
-    ),
-
-    // Product size may be blank
-    size: $(element).find("div.product-meta p span.size").text().trim(),
-
-    // Store where the source of information came from
-    sourceSite: "countdown.co.nz",
-
-    // Categories
-    category: categories,
-
-    // Ingredients
-    ingredients: ingredients || [],
-
-    // Store today's date
-    lastChecked: new Date(),
-    lastUpdated: new Date(),
-
-    // These values will later be overwritten
-    priceHistory: [],
-    currentPrice: 0,
-  };
-
-  // The price is originally displayed with dollars in an <em>, cents in a <span>,
-  // and potentially a kg unit name inside the <span> for some meat products.
-  // The 2 numbers are joined, parsed, and non-number chars are removed.
-  const dollarString: string = $(element)
-    .find("div.product-meta product-price h3 em")
-    .text()
-    .trim();
-  let centString: string = $(element)
-    .find("div.product-meta product-price h3 span")
-    .text()
-    .trim();
-  if (centString.includes("kg")) product.size = "per kg";
-  centString = centString.replace(/\D/g, "");
-
-  product.currentPrice = Number(dollarString + "." + centString);
-
-  // Create a date object for now, but with minutes and seconds set to 0
-  const today = new Date();
-  today.setMinutes(0);
-  today.setSeconds(0);
-
-  // Create a DatedPrice object, which may be added into the product if needed
-  const todaysDatedPrice: DatedPrice = {
-    date: today,
-    price: product.currentPrice,
-  };
-  product.priceHistory = [todaysDatedPrice];
-
-  // Check for manually overridden product data
-  productOverrides.forEach((override) => {
-    // First check if product ID has any overrides
-    if (override.id === product.id) {
-      // Check for size override
-      if (override.size !== undefined) {
-        // console.log(`${product.name} - overriding size from ${product.size} to ${override.size}`);
-        product.size = override.size;
-      }
-
-      // Check for category override
-      if (override.category !== undefined) {
-        // console.log(
-        //   `${product.name} - overriding category from ${product.category} to ${override.category}`
-        // );
-        product.category = [override.category];
-      }
-    }
-  });
 
-  // Try add unit price and unit name to product
-  product = addUnitPriceToProduct(product);
-
-  // If product values pass validation, return product
-  if (validateProduct(product)) return product;
-
-  // Log if out of stock or other errors
-  const outOfStock = $(element)
-    .find("product-add-to-trolley button")
-    .text()
-    .trim();
-  if (
-    outOfStock.includes("Out of stock") ||
-    outOfStock.includes("Unavailable")
-  ) {
-    return undefined;
+  // Read back the active store, as the auto-complete may have picked a different store, or none at all
+  const storeSelection = createStoreSelection(locationName, await readActiveStoreName());
+  if (storeSelection.matched) {
+    log(
+      colour.yellow,
+      "Changed Location from " + oldLocation + " to " + storeSelection.resolvedName + "\n"
+    );
   } else {
     logError(
-      `  Unable to Scrape: ${product.id.padStart(6)} | ${product.name} | ` +
-      `$${product.currentPrice}`
+      `Store Location:${locationName} does not match the active store ` +
+      `${storeSelection.resolvedName || "(unknown)"}`
     );
-    return undefined;
   }
+  return storeSelection;
 }
 
-// validateProduct()
-// -----------------
-// Checks scraped product values are within reasonable ranges
+// readActiveStoreName()
+// ---------------------
+// Reloads the store selection page and returns the name of the active store,
+//  returns undefined if it can't be read
 
-function validateProduct(product: Product): boolean {
+async function readActiveStoreName(): Promise<string | undefined> {
   try {
-    if (product.name.length < 4 || product.name.length > 100) return false;
-    if (product.id.length < 2 || product.id.length > 20) return false;
-    if (
-      product.currentPrice <= 0 ||
-      product.currentPrice === null ||
-      product.currentPrice === undefined ||
-      Number.isNaN(product.currentPrice) ||
-      product.currentPrice > 999
-    ) {
-      return false;
-    }
-    return true;
-  } catch (error) {
-    return false;
+    await page.goto("https://www.woolworths.co.nz/bookatimeslot", {
+      waitUntil: "domcontentloaded",
+    });
+    await page.waitForSelector("fieldset div div p strong");
+    return (await page.locator("fieldset div div p strong").innerText()).trim();
+  } catch {
+    return undefined;
   }
 }
 
+// createStoreSelection()
+// ----------------------
+// Records which store was requested and which store the site resolved, for the run metadata
+
+function createStoreSelection(requestedName: string, resolvedName: string | undefined): StoreSelection {
+  const storeSelection: StoreSelection = {
+    requestedName,
+    matched: isStoreNameMatch(requestedName, resolvedName),
+    selectedAt: new Date().toISOString(),
+  };
+  if (resolvedName !== undefined) storeSelection.resolvedName = resolvedName;
+  return storeSelection;
+}
+
 // parseAndCategoriseURL()
 // -----------------------
 // Parses a URL string and category from a line of text, also optimises query parameters
 // Returns undefined if not a valid URL
 // Example Input:
-//    woolworths.co.nz/shop/browse/frozen/ice-cream-sorbet/tubs category=ice-cream
+//    woolworths.co.nz/shop/browse/frozen/ice-cream-sorbet/tubs category=ice-cream max-pages=2
 // Example Return:
 //    {
 //        url: "https://woolworths.co.nz/shop/browse/frozen/ice-cream-sorbet/tubs?page=1&size=48&inStockProductsOnly=true"
 //        category: "ice-cream"
+//        maxPages: 2
 //    }
 
 export function parseAndCategoriseURL(
@@ -645,6 +1003,11 @@ export function parseAndCategoriseURL(
         if (section.includes(","))
           splitCategories = section.replace("categories=", "").split(",");
         categorisedUrl.categories = splitCategories;
+
+        // Parse an optional limit on how many result pages are scraped
+      } else if (section.startsWith("max-pages=")) {
+        const maxPages = parseInt(section.replace("max-pages=", ""));
+        if (maxPages > 0) categorisedUrl.maxPages = maxPages;
       }
     });
 
@@ -671,7 +1034,7 @@ export function parseAndCategoriseURL(
 // ---------------------------
 // Excludes ads, tracking, and bandwidth intensive resources from being downloaded by Playwright
 
-async function routePlaywrightExclusions() {
+async function routePlaywrightExclusions(targetPage: playwright.Page = page) {
   let typeExclusions = ["image", "media", "font"];
   let urlExclusions = [
     "googleoptimize.com",
@@ -692,7 +1055,7 @@ async function routePlaywrightExclusions() {
   ];
 
   // Route with exclusions processed
-  await page.route("**/*", async (route) => {
+  await targetPage.route("**/*", async (route) => {
     const req = route.request();
     let excludeThisRequest = false;
     //let trimmedUrl = req.url().length > 120 ? req.url().substring(0, 120) + '...' : req.url();
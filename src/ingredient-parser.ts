@@ -0,0 +1,121 @@
+// Used by index.ts for splitting ingredients text into the flat ingredients list,
+//  and for parsing each ingredient into a tree of sub-ingredients, percentages and additive codes
+
+import { IngredientNode } from "./typings";
+
+// Additive codes such as '322', 'E330', 'INS 471', '150c' or '322(i)'
+const additiveCodePattern = /\b(?:E|INS\s?)?(\d{3,4}[a-f]?)(\s?\([ivx]+\))?(?![\d.%])/gi;
+const percentagePattern = /(\d+(?:\.\d+)?)\s*%/;
+
+// splitIngredients()
+// ------------------
+// Splits ingredients text on commas that are outside of brackets, including nested brackets,
+//  returning the flat list of top level ingredients
+
+export function splitIngredients(ingredientsText: string): string[] {
+  if (!ingredientsText.trim()) return [];
+
+  const ingredientsList: string[] = [];
+  let bracketDepth = 0;
+  let currentIngredient = "";
+  for (const char of ingredientsText) {
+    if (char === "(" || char === "[") bracketDepth++;
+    else if ((char === ")" || char === "]") && bracketDepth > 0) bracketDepth--;
+
+    if (char === "," && bracketDepth === 0) {
+      ingredientsList.push(currentIngredient.trim());
+      currentIngredient = "";
+    } else {
+      currentIngredient += char;
+    }
+  }
+  ingredientsList.push(currentIngredient.trim());
+  return ingredientsList.filter((ingredient) => ingredient.length > 0);
+}
+
+// buildIngredientTree()
+// ---------------------
+// Parses the flat ingredients list into a tree, such as 'Chocolate (Sugar, Cocoa Butter) 30%'
+//  into Chocolate at 30%, with sub-ingredients of Sugar and Cocoa Butter
+
+export function buildIngredientTree(ingredients: string[]): IngredientNode[] {
+  return ingredients.map(parseIngredient).filter((node) => node.name.length > 0);
+}
+
+// parseIngredient()
+// -----------------
+// Parses a single ingredient. Bracketed text holds sub-ingredients, a percentage or additive codes,
+//  and any percentage or additive codes outside the brackets also belong to this ingredient
+
+export function parseIngredient(ingredientText: string): IngredientNode {
+  const text = ingredientText.trim().replace(/\.$/, "");
+
+  // Separate the text outside brackets from the contents of each top level bracket
+  let outsideText = "";
+  const bracketContents: string[] = [];
+  let bracketDepth = 0;
+  let currentContents = "";
+  for (const char of text) {
+    if (char === "(" || char === "[") {
+      if (bracketDepth > 0) currentContents += char;
+      bracketDepth++;
+    } else if ((char === ")" || char === "]") && bracketDepth > 0) {
+      bracketDepth--;
+      if (bracketDepth > 0) currentContents += char;
+      else {
+        bracketContents.push(currentContents);
+        currentContents = "";
+      }
+    } else if (bracketDepth > 0) currentContents += char;
+    else outsideText += char;
+  }
+  if (currentContents.trim()) bracketContents.push(currentContents);
+
+  const node: IngredientNode = { name: "" };
+  const additiveCodes: string[] = [];
+  const subIngredients: IngredientNode[] = [];
+
+  // Percentages and additive codes outside brackets, such as 'Milk Solids 12%' or 'Emulsifier 471'
+  const percentageMatch = outsideText.match(percentagePattern);
+  if (percentageMatch) node.percentage = Number(percentageMatch[1]);
+  let name = outsideText.replace(percentagePattern, " ");
+  additiveCodes.push(...matchAdditiveCodes(name));
+  name = name.replace(additiveCodePattern, " ").replace(/[:\s]+/g, " ").trim();
+
+  // Bracketed items are either a percentage, an additive code, or a sub-ingredient
+  bracketContents.flatMap(splitIngredients).forEach((item) => {
+    const itemPercentage = item.match(/^(\d+(?:\.\d+)?)\s*%$/);
+    if (itemPercentage) {
+      node.percentage ??= Number(itemPercentage[1]);
+    } else if (isAdditiveCode(item)) {
+      additiveCodes.push(...matchAdditiveCodes(item));
+    } else {
+      subIngredients.push(parseIngredient(item));
+    }
+  });
+
+  // An ingredient which is only an additive code, such as 'E330', is named by its code
+  node.name = name.length > 0 ? name : text;
+  if (additiveCodes.length > 0) node.additiveCodes = additiveCodes;
+  if (subIngredients.length > 0) node.subIngredients = subIngredients;
+  return node;
+}
+
+// isAdditiveCode()
+// ----------------
+// Returns true if the text is only one or more additive codes, such as '322' or 'E330, E331'
+
+function isAdditiveCode(text: string): boolean {
+  return text.replace(additiveCodePattern, "").replace(/[,\s]/g, "").length === 0 &&
+    matchAdditiveCodes(text).length > 0;
+}
+
+// matchAdditiveCodes()
+// --------------------
+// Returns every additive code within the text, without any E or INS prefix
+
+function matchAdditiveCodes(text: string): string[] {
+  return Array.from(text.matchAll(additiveCodePattern)).map(
+    (match) => match[1].toLowerCase() + (match[2] || "").replace(/\s/g, "").toLowerCase()
+  );
+}
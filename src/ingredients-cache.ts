@@ -0,0 +1,143 @@
+// Used by index.ts for skipping product pages whose ingredients were recently scraped.
+// In database mode ingredients are read from the active ProductStore, otherwise from a local JSON file.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatedIngredients, Product, ProductStore } from "./typings";
+
+let ttlMilliSeconds = 30 * 24 * 60 * 60 * 1000;
+let refreshAll = false;
+let productStore: ProductStore | undefined;
+let cacheFilePath: string;
+let fileCache: { [id: string]: DatedIngredients } = {};
+
+// Products read from the ProductStore while checking ingredients, reused when the product is upserted
+let readProducts = new Map<string, Product>();
+
+// IDs of the products read together by prefetchProducts(), including those not found
+let prefetchedIds = new Set<string>();
+
+// establishIngredientsCache()
+// ---------------------------
+// Sets how long ingredients stay fresh, and where cached ingredients are read from.
+// If refresh is set, every product page will be scraped again.
+
+export function establishIngredientsCache(
+  ttlDays: number,
+  refresh: boolean,
+  store?: ProductStore,
+  filePath = process.env.INGREDIENTS_CACHE_PATH || "data/ingredients-cache.json"
+) {
+  ttlMilliSeconds = ttlDays * 24 * 60 * 60 * 1000;
+  refreshAll = refresh;
+  productStore = store;
+  cacheFilePath = filePath;
+  fileCache = {};
+  readProducts = new Map();
+  prefetchedIds = new Set();
+
+  if (productStore === undefined && fs.existsSync(cacheFilePath)) {
+    try {
+      fileCache = JSON.parse(fs.readFileSync(cacheFilePath, "utf-8"));
+    } catch {
+      // A corrupt cache file is ignored and will be overwritten
+      fileCache = {};
+    }
+  }
+}
+
+// prefetchProducts()
+// ------------------
+// Reads the stored products of a listing page together, so each product's ingredients can be checked
+//  without a separate read. If they couldn't be read together, each product is read on its own instead
+
+export async function prefetchProducts(ids: string[]) {
+  if (refreshAll || productStore === undefined || ids.length === 0) return;
+
+  let dbProducts: Product[];
+  try {
+    dbProducts = await productStore.readProducts(ids);
+  } catch {
+    return;
+  }
+  ids.forEach((id) => {
+    prefetchedIds.add(id);
+    readProducts.delete(id);
+  });
+  dbProducts.forEach((dbProduct) => {
+    if (!readProducts.has(dbProduct.id)) readProducts.set(dbProduct.id, dbProduct);
+  });
+}
+
+// getFreshIngredients()
+// ---------------------
+// Returns cached ingredients for a product if they were checked within the TTL,
+//  returns undefined if the product page should be scraped, or the stored product couldn't be read
+
+export async function getFreshIngredients(id: string): Promise<DatedIngredients | undefined> {
+  if (refreshAll) return undefined;
+
+  let cached: DatedIngredients | undefined;
+  if (productStore !== undefined) {
+    let dbProduct: Product | undefined;
+    if (prefetchedIds.has(id)) {
+      prefetchedIds.delete(id);
+      dbProduct = readProducts.get(id);
+    } else {
+      try {
+        dbProduct = await productStore.readProduct(id);
+      } catch {
+        // The product is read again when upserting, which reports the failure
+        readProducts.delete(id);
+        return undefined;
+      }
+    }
+    if (dbProduct !== undefined) readProducts.set(id, dbProduct);
+    else readProducts.delete(id);
+    if (dbProduct?.ingredientsLastChecked) {
+      cached = {
+        ingredients: dbProduct.ingredients || [],
+        nutrition: dbProduct.nutrition,
+        // Bolded allergens are only found on the product page, so the declarations scraped from it are kept
+        allergenDeclarations: dbProduct.allergenDeclarations,
+        checkedAt: dbProduct.ingredientsLastChecked,
+      };
+    }
+  } else {
+    cached = fileCache[id];
+  }
+
+  if (cached === undefined) return undefined;
+  const age = Date.now() - new Date(cached.checkedAt).getTime();
+  return age < ttlMilliSeconds ? cached : undefined;
+}
+
+// takeReadProduct()
+// -----------------
+// Returns the database product read while checking its ingredients, so it isn't read again when upserting.
+// Each product is only returned once, as the stored product changes once it has been upserted
+
+export function takeReadProduct(id: string): Product | undefined {
+  const dbProduct = readProducts.get(id);
+  readProducts.delete(id);
+  return dbProduct;
+}
+
+// cacheScrapedIngredients()
+// -------------------------
+// Stores freshly scraped ingredients in the local file cache.
+// In database mode this is not needed, as ingredients are stored when the product is upserted.
+
+export function cacheScrapedIngredients(id: string, datedIngredients: DatedIngredients) {
+  if (productStore === undefined) fileCache[id] = datedIngredients;
+}
+
+// saveIngredientsCache()
+// ----------------------
+// Writes the local file cache, if being used
+
+export function saveIngredientsCache() {
+  if (productStore !== undefined) return;
+  fs.mkdirSync(path.dirname(cacheFilePath), { recursive: true });
+  fs.writeFileSync(cacheFilePath, JSON.stringify(fileCache));
+}
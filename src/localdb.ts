@@ -0,0 +1,199 @@
+// Used by index.ts for storing products in a local JSON file,
+//  allows database mode to be run without a Supabase or Azure account
+
+import * as dotenv from "dotenv";
+dotenv.config();
+dotenv.config({ path: `.env.local`, override: true });
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logError, log, colour } from "./utilities";
+import { Product, UpsertResponse, ProductStore, ScrapeRun } from "./typings";
+import { buildUpdatedProduct } from "./change-detection";
+
+let dbFilePath: string;
+let products: { [id: string]: Product } = {};
+let hasUnsavedProducts = false;
+let runsFilePath: string;
+let runs: { [id: string]: ScrapeRun } = {};
+
+// Local JSON file implementation of ProductStore, selected with 'db=local'
+export const localStore: ProductStore = {
+  name: "LocalDB",
+  establish: establishLocalDB,
+  upsertProduct: upsertProductToLocalDB,
+  readProduct: readProductFromLocalDB,
+  readProducts: readProductsFromLocalDB,
+  uploadImage: uploadImageToLocal,
+  upsertRun: upsertRunToLocalDB,
+  close: async () => saveLocalDB(),
+};
+
+// establishLocalDB()
+// ------------------
+// Loads existing products from the JSON file set in LOCAL_DB_PATH, or creates a new one.
+// Scrape runs are stored in scrape-runs.json within the same folder
+
+export async function establishLocalDB(filePath = process.env.LOCAL_DB_PATH || "data/products.json") {
+  dbFilePath = filePath;
+  products = {};
+  hasUnsavedProducts = false;
+
+  if (fs.existsSync(dbFilePath)) {
+    try {
+      products = JSON.parse(fs.readFileSync(dbFilePath, "utf-8"));
+    } catch (error) {
+      throw Error(`Unable to parse local database file ${dbFilePath}\n` + error);
+    }
+  } else {
+    fs.mkdirSync(path.dirname(dbFilePath), { recursive: true });
+    saveLocalDB();
+  }
+
+  runsFilePath = path.join(path.dirname(dbFilePath), "scrape-runs.json");
+  runs = {};
+  if (fs.existsSync(runsFilePath)) {
+    try {
+      runs = JSON.parse(fs.readFileSync(runsFilePath, "utf-8"));
+    } catch (error) {
+      throw Error(`Unable to parse local scrape runs file ${runsFilePath}\n` + error);
+    }
+  }
+  log(colour.yellow, `Using local database ${dbFilePath} - ${Object.keys(products).length} existing products`);
+}
+
+// readProductFromLocalDB()
+// ------------------------
+// Reads a single product by ID, returns undefined if not found
+
+export async function readProductFromLocalDB(id: string): Promise<Product | undefined> {
+  // Products are cloned so callers can't modify stored data without an upsert
+  const dbProduct = products[id];
+  return dbProduct ? JSON.parse(JSON.stringify(dbProduct)) : undefined;
+}
+
+// readProductsFromLocalDB()
+// -------------------------
+// Reads every product with one of the IDs, products not found are left out
+
+export async function readProductsFromLocalDB(ids: string[]): Promise<Product[]> {
+  const dbProducts = await Promise.all(ids.map((id) => readProductFromLocalDB(id)));
+  return dbProducts.filter((dbProduct): dbProduct is Product => dbProduct !== undefined);
+}
+
+// upsertProductToLocalDB()
+// ------------------------
+// Inserts or updates a product object in the local database, which is written to the JSON file
+//  when the run is stored after each url and on close.
+// Returns an UpsertResponse based on if and how the Product was updated
+
+export async function upsertProductToLocalDB(
+  scrapedProduct: Product,
+  storeName?: string,
+  dbProduct?: Product
+): Promise<UpsertResponse> {
+  try {
+    // Read the existing product, unless it was already read this run
+    dbProduct ??= await readProductFromLocalDB(scrapedProduct.id);
+
+    // If an existing product was found, check for update values before saving
+    if (dbProduct !== undefined) {
+      const response = buildUpdatedProduct(scrapedProduct, dbProduct, storeName);
+      products[scrapedProduct.id] = toStoredProduct(response.product);
+      hasUnsavedProducts = true;
+      return response.upsertType;
+    }
+
+    // Otherwise store as a new product
+    products[scrapedProduct.id] = toStoredProduct(scrapedProduct);
+    hasUnsavedProducts = true;
+
+    console.log(
+      `  New Product: ${scrapedProduct.name.slice(0, 47).padEnd(47)}` +
+      ` | $ ${scrapedProduct.currentPrice}`
+    );
+    return UpsertResponse.NewProduct;
+  } catch (e: any) {
+    logError(e.message);
+    return UpsertResponse.Failed;
+  }
+}
+
+// upsertRunToLocalDB()
+// --------------------
+// Inserts or replaces a scrape run in the local scrape runs file.
+// Products upserted since the run was last stored are also saved, so they match the run's progress
+
+export async function upsertRunToLocalDB(run: ScrapeRun): Promise<boolean> {
+  try {
+    if (hasUnsavedProducts) saveLocalDB();
+    runs[run.id] = JSON.parse(JSON.stringify(run));
+    fs.writeFileSync(runsFilePath, JSON.stringify(runs, null, 2));
+    return true;
+  } catch (e: any) {
+    logError(`Unable to store scrape run ${run.id} - ${e.message}`);
+    return false;
+  }
+}
+
+// toStoredProduct()
+// -----------------
+// Round-trips a product through JSON so dates are stored as strings, the same as cloud databases
+
+function toStoredProduct(product: Product): Product {
+  return JSON.parse(JSON.stringify(product));
+}
+
+// saveLocalDB()
+// -------------
+// Writes all products to the local JSON file
+
+function saveLocalDB() {
+  fs.writeFileSync(dbFilePath, JSON.stringify(products, null, 2));
+  hasUnsavedProducts = false;
+}
+
+// uploadImageToLocal()
+// ----------------
+// Downloads a product image into the local images folder
+
+export async function uploadImageToLocal(imgUrl: string, product: Product): Promise<boolean> {
+  // Check if passed in url is valid, return if not
+  if (imgUrl === undefined || !imgUrl.includes("http")) {
+    log(colour.grey, `  Image ${product.id} has invalid url: ${imgUrl}`);
+    return false;
+  }
+  try {
+    // Fetch the image from the URL
+    const response = await fetch(imgUrl);
+
+    if (!response.ok) {
+      log(colour.grey, `  Image ${product.id} unavailable to be downloaded`);
+      return false;
+    }
+
+    const imageBuffer = await response.arrayBuffer();
+
+    // Create images directory if it doesn't exist
+    const fileName = `${product.id}.jpg`;
+    const imagesDir = path.join(__dirname, 'images');
+    if (!fs.existsSync(imagesDir)) {
+      fs.mkdirSync(imagesDir);
+    }
+
+    // Define the file path
+    const filePath = path.join(imagesDir, fileName);
+
+    // Save the image to the local folder
+    fs.writeFileSync(filePath, new Uint8Array(imageBuffer));
+
+    // Log for successful upload
+    log(colour.grey, `  Image ${product.id} successfully downloaded and saved`);
+
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(colour.grey, `  Image ${product.id} unable to be processed: ${message}`);
+    return false;
+  }
+}
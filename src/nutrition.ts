@@ -0,0 +1,136 @@
+// Used by index.ts for parsing the nutrition information panel of a product page
+
+import * as cheerio from "cheerio";
+import { NutritionInfo, NutritionValues } from "./typings";
+
+// Energy is stored in kJ, sodium in mg, and all other nutrients in g
+const kilojoulesPerCalorie = 4.184;
+
+// parseNutritionFromProductPage()
+// -------------------------------
+// Takes the html of a product page and returns the nutrition per 100g or 100ml, and per serving.
+// The nutrition panel is the table containing an energy row, with a header row of
+//  'Per Serving' and 'Per 100g' columns. Returns undefined if no nutrition panel is found.
+
+export function parseNutritionFromProductPage(html: string): NutritionInfo | undefined {
+  const $ = cheerio.load(html);
+
+  const nutritionTable = $("table")
+    .filter((i, table) => /energy/i.test($(table).text()))
+    .first();
+  if (nutritionTable.length === 0) return undefined;
+
+  const rows = nutritionTable
+    .find("tr")
+    .toArray()
+    .map((row) =>
+      $(row)
+        .find("th, td")
+        .toArray()
+        .map((cell) => $(cell).text().replace(/\s+/g, " ").trim())
+    );
+
+  // Find which columns hold per 100g and per serving values.
+  // Without a header row, the usual order of per serving then per 100g is assumed
+  const headerRow = rows.find((cells) => cells.some((cell) => /100\s*(g|ml)|serv/i.test(cell)));
+  let per100Column = headerRow ? headerRow.findIndex((cell) => /100\s*(g|ml)/i.test(cell)) : -1;
+  let perServingColumn = headerRow ? headerRow.findIndex((cell) => /serv/i.test(cell)) : -1;
+  if (headerRow === undefined) {
+    const columnCount = Math.max(...rows.map((cells) => cells.length));
+    per100Column = columnCount - 1;
+    perServingColumn = columnCount >= 3 ? 1 : -1;
+  }
+
+  const per100: NutritionValues = {};
+  const perServing: NutritionValues = {};
+  rows
+    .filter((cells) => cells !== headerRow)
+    .forEach((cells) => {
+      const nutrient = matchNutrient(cells[0] || "");
+      if (nutrient === undefined) return;
+
+      const per100Value = parseNutrientValue(nutrient, cells[0], cells[per100Column]);
+      if (per100Value !== undefined && per100[nutrient] === undefined) per100[nutrient] = per100Value;
+
+      const perServingValue = parseNutrientValue(nutrient, cells[0], cells[perServingColumn]);
+      if (perServingValue !== undefined && perServing[nutrient] === undefined) {
+        perServing[nutrient] = perServingValue;
+      }
+    });
+
+  const nutrition: NutritionInfo = {
+    per100Unit: headerRow?.[per100Column]?.match(/100\s*ml/i) ? "ml" : "g",
+  };
+  if (Object.keys(per100).length > 0) nutrition.per100 = per100;
+  if (Object.keys(perServing).length > 0) nutrition.perServing = perServing;
+  if (nutrition.per100 === undefined && nutrition.perServing === undefined) return undefined;
+
+  // Serving details are usually shown as text above the table,
+  //  text from separate elements is spaced apart so values don't run into the next element
+  const pageText = $("body *")
+    .contents()
+    .filter((i, node) => node.type === "text")
+    .map((i, node) => $(node).text())
+    .get()
+    .join(" ")
+    .replace(/\s+/g, " ");
+  const servingSizeMatch = pageText.match(/serving size\s*:?\s*(\d+(?:\.\d+)?\s*(?:g|ml|kg|l)\b)/i);
+  if (servingSizeMatch) nutrition.servingSize = servingSizeMatch[1].replace(/\s+/g, "");
+  const servingsPerPackMatch = pageText.match(/servings per (?:pack|package|container)\s*:?\s*(\d+(?:\.\d+)?)/i);
+  if (servingsPerPackMatch) nutrition.servingsPerPack = Number(servingsPerPackMatch[1]);
+
+  return nutrition;
+}
+
+// matchNutrient()
+// ---------------
+// Matches a nutrition table row label to a nutrient, returns undefined for nutrients not stored,
+//  such as trans fat or dietary fibre
+
+function matchNutrient(label: string): keyof NutritionValues | undefined {
+  const lowerLabel = label.toLowerCase();
+  if (lowerLabel.includes("energy")) return "energyKj";
+  if (lowerLabel.includes("protein")) return "protein";
+  if (/trans|poly|mono/.test(lowerLabel)) return undefined;
+  if (lowerLabel.includes("saturated")) return "saturatedFat";
+  if (lowerLabel.includes("fat")) return "fat";
+  if (lowerLabel.includes("sugar")) return "sugars";
+  if (lowerLabel.includes("carbohydrate")) return "carbohydrate";
+  if (lowerLabel.includes("sodium")) return "sodium";
+  return undefined;
+}
+
+// parseNutrientValue()
+// --------------------
+// Parses a value such as '1550kJ (370Cal)', '<1g' or '420mg', converting into the stored unit.
+// Values without a unit use the unit in the row label, such as 'Sodium (mg)'
+
+function parseNutrientValue(
+  nutrient: keyof NutritionValues,
+  label: string,
+  valueText: string | undefined
+): number | undefined {
+  if (valueText === undefined) return undefined;
+
+  if (nutrient === "energyKj") {
+    const kilojoulesMatch = valueText.match(/(\d+(?:\.\d+)?)\s*kj/i);
+    if (kilojoulesMatch) return Number(kilojoulesMatch[1]);
+    const caloriesMatch = valueText.match(/(\d+(?:\.\d+)?)\s*(?:k?cal)/i);
+    if (caloriesMatch) return Math.round(Number(caloriesMatch[1]) * kilojoulesPerCalorie);
+    const energyMatch = valueText.match(/(\d+(?:\.\d+)?)/);
+    if (!energyMatch) return undefined;
+    return /k?cal/i.test(label)
+      ? Math.round(Number(energyMatch[1]) * kilojoulesPerCalorie)
+      : Number(energyMatch[1]);
+  }
+
+  const valueMatch = valueText.replace(/,/g, "").match(/(\d+(?:\.\d+)?)\s*(mg|g)?\b/i);
+  if (!valueMatch) return undefined;
+  const value = Number(valueMatch[1]);
+  const unit = (valueMatch[2] || label.match(/\((mg|g)\)/i)?.[1] || (nutrient === "sodium" ? "mg" : "g"))
+    .toLowerCase();
+
+  // Sodium is stored in mg, other nutrients in g
+  if (nutrient === "sodium") return unit === "g" ? Math.round(value * 1000 * 100) / 100 : value;
+  return unit === "mg" ? Math.round((value / 1000) * 1000) / 1000 : value;
+}
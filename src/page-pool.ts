@@ -0,0 +1,93 @@
+// Used by index.ts for loading product pages in parallel,
+//  using a bounded pool of playwright pages and a global rate limit between page loads
+
+import playwright from "playwright";
+import { setTimeout } from "timers/promises";
+
+let allPages: playwright.Page[] = [];
+let idlePages: playwright.Page[] = [];
+let waitingForPage: ((page: playwright.Page) => void)[] = [];
+
+// The minimum delay between any 2 page loads, shared across all pooled pages
+let minDelayBetweenLoadsMs = 0;
+let nextPageLoadTime = 0;
+
+// establishPagePool()
+// -------------------
+// Opens a number of pages within a browser context, so they share cookies such as the selected store.
+// Each new page is passed to setupPage, such as for routing exclusions.
+
+export async function establishPagePool(
+  context: playwright.BrowserContext,
+  poolSize: number,
+  delayBetweenLoadsMs: number,
+  setupPage: (page: playwright.Page) => Promise<void> = async () => { }
+) {
+  await closePagePool();
+  minDelayBetweenLoadsMs = delayBetweenLoadsMs;
+  nextPageLoadTime = 0;
+
+  for (let i = 0; i < Math.max(1, poolSize); i++) {
+    const page = await context.newPage();
+    await setupPage(page);
+    allPages.push(page);
+    idlePages.push(page);
+  }
+}
+
+// closePagePool()
+// ---------------
+// Closes all pooled pages
+
+export async function closePagePool() {
+  await Promise.all(allPages.map((page) => page.close().catch(() => { })));
+  allPages = [];
+  idlePages = [];
+  waitingForPage = [];
+}
+
+// mapWithPagePool()
+// -----------------
+// Runs a task for each item, with at most one task per pooled page running at once.
+// Returns results in the same order as the items.
+
+export async function mapWithPagePool<T, R>(
+  items: T[],
+  task: (page: playwright.Page, item: T) => Promise<R>
+): Promise<R[]> {
+  if (allPages.length === 0) throw Error("Page pool has not been established");
+
+  return Promise.all(
+    items.map(async (item) => {
+      const page = await acquirePage();
+      try {
+        return await task(page, item);
+      } finally {
+        releasePage(page);
+      }
+    })
+  );
+}
+
+// waitForRateLimit()
+// ------------------
+// Waits until the next page load is allowed, should be called before each page.goto()
+
+export async function waitForRateLimit() {
+  const now = Date.now();
+  const waitTime = Math.max(0, nextPageLoadTime - now);
+  nextPageLoadTime = Math.max(now, nextPageLoadTime) + minDelayBetweenLoadsMs;
+  if (waitTime > 0) await setTimeout(waitTime);
+}
+
+function acquirePage(): Promise<playwright.Page> {
+  const page = idlePages.pop();
+  if (page !== undefined) return Promise.resolve(page);
+  return new Promise((resolve) => waitingForPage.push(resolve));
+}
+
+function releasePage(page: playwright.Page) {
+  const nextWaiting = waitingForPage.shift();
+  if (nextWaiting !== undefined) nextWaiting(page);
+  else idlePages.push(page);
+}
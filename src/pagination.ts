@@ -0,0 +1,77 @@
+// Used by index.ts for finding how many result pages a category listing has
+
+import * as cheerio from "cheerio";
+
+// Elements showing the total result count such as 'Showing 1 - 48 of 263 items', and the pagination controls
+export const resultCountSelector = ".paging-description, [class*='result-count'], [class*='search-result-count']";
+export const paginationSelector = "cdx-pagination, nav[aria-label*='agination'], ul.pagination";
+
+// Only these parts of a listing page are kept and parsed, instead of the whole document
+export const listingPageSelector = `product-grid, ${resultCountSelector}, ${paginationSelector}`;
+
+// parsePageCount()
+// ----------------
+// Takes the html of a listing page and returns the total number of result pages.
+// Uses the total result count such as 'Showing 1 - 48 of 263 items' if found,
+//  otherwise the highest numbered pagination link, otherwise 1 page.
+
+export function parsePageCount(html: string, pageSize: number): number {
+  const $ = cheerio.load(html);
+
+  // Try match the total result count from the paging description, ignoring any product or promotion text
+  const resultCountMatch = $(resultCountSelector)
+    .text()
+    .replace(/\s+/g, " ")
+    .match(/of ([\d,]+) (items|results|products)/i);
+  if (resultCountMatch) {
+    const resultCount = parseInt(resultCountMatch[1].replace(/,/g, ""));
+    if (resultCount > 0 && pageSize > 0) return Math.ceil(resultCount / pageSize);
+  }
+
+  // Otherwise find the highest page number within the pagination controls
+  let highestPageNumber = 1;
+  $(paginationSelector).find("a").each((i, link) => {
+    const pageNumber = parseInt($(link).text().trim());
+    if (!Number.isNaN(pageNumber) && pageNumber > highestPageNumber) highestPageNumber = pageNumber;
+  });
+  return highestPageNumber;
+}
+
+// getUrlPageSize()
+// ----------------
+// Returns the size= query parameter of a listing url, defaults to 48 products per page
+
+export function getUrlPageSize(url: string): number {
+  const sizeMatch = url.match(/[?&]size=(\d+)/);
+  return sizeMatch ? parseInt(sizeMatch[1]) : 48;
+}
+
+// getUrlPageNumber()
+// ------------------
+// Returns the page= query parameter of a listing url, defaults to the first page
+
+export function getUrlPageNumber(url: string): number {
+  const pageMatch = url.match(/[?&]page=(\d+)/);
+  return pageMatch ? parseInt(pageMatch[1]) : 1;
+}
+
+// setUrlPageNumber()
+// ------------------
+// Returns a listing url with the page= query parameter set to a new page number
+
+export function setUrlPageNumber(url: string, pageNumber: number): string {
+  if (url.match(/[?&]page=\d+/)) return url.replace(/([?&])page=\d+/, `$1page=${pageNumber}`);
+  return url + (url.includes("?") ? "&" : "?") + `page=${pageNumber}`;
+}
+
+// setUrlInStockProductsOnly()
+// ---------------------------
+// Returns a listing url with the inStockProductsOnly= query parameter set,
+//  out of stock products are only listed when this is false
+
+export function setUrlInStockProductsOnly(url: string, inStockProductsOnly: boolean): string {
+  if (url.match(/[?&]inStockProductsOnly=\w+/)) {
+    return url.replace(/([?&])inStockProductsOnly=\w+/, `$1inStockProductsOnly=${inStockProductsOnly}`);
+  }
+  return url + (url.includes("?") ? "&" : "?") + `inStockProductsOnly=${inStockProductsOnly}`;
+}
@@ -0,0 +1,223 @@
+// Used by index.ts for building products from the product entries of listing pages,
+//  including promotions, availability, categories, overrides and unit prices
+
+import * as cheerio from "cheerio";
+import _ from "lodash";
+import { getProductOverride } from "./product-overrides";
+import { explainCategoryRule, matchCategoryRule } from "./categorisation";
+import { isPromoPrice, parsePromotion } from "./promotions";
+import { addUnitPriceToProduct } from "./unit-price";
+import { parseSiteUnitPrice } from "./cup-price";
+import { logError } from "./utilities";
+import { Availability, DatedPrice, Product } from "./typings";
+
+// Product entries within the product grid of a listing page
+export const productEntrySelector = "product-grid cdx-card a.product-entry";
+
+let trackAvailability = false;
+let explainCategories = false;
+
+// establishProductEntries()
+// -------------------------
+// Sets whether availability is recorded on each product, and whether category rules are explained
+
+export function establishProductEntries(trackAvailabilityMode: boolean, explainCategoriesMode: boolean) {
+  trackAvailability = trackAvailabilityMode;
+  explainCategories = explainCategoriesMode;
+}
+
+// playwrightElementToProduct()
+// ----------------------------
+// Takes a playwright html element for 'a.product-entry', builds and returns a Product
+
+export function playwrightElementToProduct(
+  element: cheerio.Element,
+  categories: string[],
+  ingredients: string[],
+  sourceUrl?: string
+): Product | undefined {
+  const $ = cheerio.load(element);
+
+  let product: Product = {
+    // Extract ID from h3 tag and remove non-numbers
+    id: getProductEntryId(element) as string,
+
+    // Original title is all lower-case and needs to be made into start-case
+    name: _.startCase(
+      $(element)
+        .find("h3")
+        .first()
+        .text()
+
+        // Clean unnecessary words from titles
+        .replace("fresh fruit", "")
+        .replace("fresh vegetable", "")
+
+        // Clean variable weights from meat products, such 'Pork Loin Chops 0.4-0.9kg 3-4pcs'
+        .replace(/(\d\.\d-\d\.\d)kg (\d-\d)pcs/, "")
+
+        // Clean excess whitespace
+        .replace("  ", " ")
+        .trim()
+    ),
+
+    // Product size may be blank
+    size: $(element).find("div.product-meta p span.size").text().trim(),
+
+    // Store where the source of information came from
+    sourceSite: "countdown.co.nz",
+
+    // Categories
+    category: categories,
+
+    // Ingredients
+    ingredients: ingredients || [],
+
+    // Store today's date
+    lastChecked: new Date(),
+    lastUpdated: new Date(),
+
+    // These values will later be overwritten
+    priceHistory: [],
+    currentPrice: 0,
+  };
+
+  // The price is originally displayed with dollars in an <em>, cents in a <span>,
+  // and potentially a kg unit name inside the <span> for some meat products.
+  // The 2 numbers are joined, parsed, and non-number chars are removed.
+  const dollarString: string = $(element)
+    .find("div.product-meta product-price h3 em")
+    .text()
+    .trim();
+  let centString: string = $(element)
+    .find("div.product-meta product-price h3 span")
+    .text()
+    .trim();
+  if (centString.includes("kg")) product.size = "per kg";
+  centString = centString.replace(/\D/g, "");
+
+  product.currentPrice = Number(dollarString + "." + centString);
+
+  // Record any special, Club price or multibuy deal separately from the regular price
+  const promo = parsePromotion($(element), product.currentPrice);
+  product = { ...product, ...promo };
+
+  // Create a date object for now, but with minutes and seconds set to 0
+  const today = new Date();
+  today.setMinutes(0);
+  today.setSeconds(0);
+
+  // Create a DatedPrice object, which may be added into the product if needed
+  const todaysDatedPrice: DatedPrice = {
+    date: today,
+    price: product.currentPrice,
+    isPromo: isPromoPrice(promo),
+  };
+  product.priceHistory = [todaysDatedPrice];
+
+  // Only record whether the product can be added to the trolley when tracking availability,
+  //  otherwise out of stock products are never scraped and their availability would never change
+  if (trackAvailability) {
+    product.availability = getProductEntryAvailability(element);
+    product.availabilityHistory = [{ date: today, availability: product.availability }];
+  }
+
+  // Assign categories from the first matching category rule, manual overrides below still take precedence
+  const categoryMatch = matchCategoryRule(product, sourceUrl);
+  if (categoryMatch !== undefined) product.category = [categoryMatch.rule.category];
+
+  // Check for manually overridden product data
+  const override = getProductOverride(product.id);
+  if (override?.name !== undefined) product.name = override.name;
+  if (override?.size !== undefined) product.size = override.size;
+  if (override?.categories !== undefined) product.category = override.categories;
+  if (explainCategories) {
+    explainCategoryRule(product, categories, override?.categories !== undefined ? undefined : categoryMatch);
+  }
+
+  // Try add unit price and unit name to product, using any overridden unit and quantity
+  product = addUnitPriceToProduct(
+    product,
+    override?.unit !== undefined && override?.quantity !== undefined
+      ? { unit: override.unit, quantity: override.quantity }
+      : undefined
+  );
+
+  // Also store the site's own unit price, to be cross-checked against our derived unit price
+  const siteUnitPrice = parseSiteUnitPrice($(element));
+  if (siteUnitPrice !== undefined) product = { ...product, ...siteUnitPrice };
+
+  // If product values pass validation, return product
+  if (validateProduct(product)) return product;
+
+  // Out of stock products are often shown without a price. When tracking availability they are still
+  //  returned without a price, so the availability of stored products can be updated
+  if (isProductEntryOutOfStock(element)) {
+    if (trackAvailability && validateProduct({ ...product, currentPrice: 1 })) {
+      product.currentPrice = 0;
+      product.priceHistory = [];
+      return product;
+    }
+    return undefined;
+  } else {
+    logError(
+      `  Unable to Scrape: ${product.id.padStart(6)} | ${product.name} | ` +
+      `$${product.currentPrice}`
+    );
+    return undefined;
+  }
+}
+
+// isProductEntryOutOfStock()
+// --------------------------
+// Checks the add to trolley button of a product entry for out of stock or unavailable
+
+export function isProductEntryOutOfStock(element: cheerio.Element): boolean {
+  return getProductEntryAvailability(element) !== "in-stock";
+}
+
+// getProductEntryId()
+// -------------------
+// Reads the product ID from the id of a product entry's title, such as 'product-123456-title'
+
+export function getProductEntryId(element: cheerio.Element): string | undefined {
+  return cheerio.load(element)(element).find("h3").first().attr("id")?.replace(/\D/g, "");
+}
+
+// getProductEntryAvailability()
+// -----------------------------
+// Reads the availability of a product entry from its add to trolley button
+
+function getProductEntryAvailability(element: cheerio.Element): Availability {
+  const $ = cheerio.load(element);
+  const trolleyButtonText = $(element)
+    .find("product-add-to-trolley button")
+    .text()
+    .trim();
+  if (trolleyButtonText.includes("Out of stock")) return "out-of-stock";
+  if (trolleyButtonText.includes("Unavailable")) return "unavailable";
+  return "in-stock";
+}
+
+// validateProduct()
+// -----------------
+// Checks scraped product values are within reasonable ranges
+
+function validateProduct(product: Product): boolean {
+  try {
+    if (product.name.length < 4 || product.name.length > 100) return false;
+    if (product.id.length < 2 || product.id.length > 20) return false;
+    if (
+      product.currentPrice <= 0 ||
+      product.currentPrice === null ||
+      product.currentPrice === undefined ||
+      Number.isNaN(product.currentPrice) ||
+      product.currentPrice > 999
+    ) {
+      return false;
+    }
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
@@ -1,72 +1,182 @@
-// This file is for manually overriding product size and category data.
-// Is used for products that do not have listed sizes to be scraped, or have incorrect categories.
-
-export const productOverrides = [
-  { id: '206889', size: '180g' },
-  { id: '196996', size: '300g' },
-  { id: '137967', size: '420g' },
-  { id: '125856', size: '450g' },
-  { id: '189268', size: '1.13kg' },
-  { id: '189150', size: '1.2kg' },
-  { id: '190454', size: '2.1kg' },
-  { id: '189078', size: '1.3kg' },
-  { id: '189136', size: '1.2kg' },
-  { id: '755237', size: '931g' },
-  { id: '755304', size: '1.1kg' },
-  { id: '755246', size: '1020g' },
-  { id: '755245', size: '1.2kg' },
-  { id: '112273', size: '865ml' },
-  { id: '269514', size: '584ml' },
-  { id: '269515', size: '584ml' },
-  { id: '116518', size: '440ml' },
-  { id: '151191', size: '570ml' },
-  { id: '279904', size: '575ml' },
-  { id: '146149', size: '1000ml' },
-  { id: '791925', size: '525g' },
-  { id: '774216', size: '525g' },
-  { id: '784406', size: '525g' },
-  { id: '791916', size: '525g' },
-  { id: '306624', size: '185g' },
-  { id: '156824', size: '180g' },
-  { id: '9023', size: '375g' },
-  { id: '266962', category: 'sweets-lollies' },
-  { id: '171524', size: '230ml', category: 'baking' },
-  { id: '170021', category: 'ice-blocks' },
-  { id: '71164', category: 'sausages' },
-  { id: '71174', category: 'sausages' },
-  { id: '71168', category: 'sausages' },
-  { id: '71165', category: 'sausages' },
-  { id: '331560', category: 'specialty-bread' },
-  { id: '679412', category: 'herbal-tea' },
-  { id: '790129', category: 'herbal-tea' },
-  { id: '267492', category: 'herbal-tea' },
-  { id: '267485', category: 'herbal-tea' },
-  { id: '413302', category: 'herbal-tea' },
-  { id: '267488', category: 'herbal-tea' },
-  { id: '760872', category: 'herbal-tea' },
-  { id: '681177', category: 'herbal-tea' },
-  { id: '95091', category: 'herbal-tea' },
-  { id: '761093', category: 'black-tea' },
-  { id: '721661', category: 'green-tea' },
-  { id: '790129', category: 'herbal-tea' },
-  { id: '267492', category: 'herbal-tea' },
-  { id: '267485', category: 'herbal-tea' },
-  { id: '721034', category: 'herbal-tea' },
-  { id: '413302', category: 'herbal-tea' },
-  { id: '267488', category: 'herbal-tea' },
-  { id: '760872', category: 'herbal-tea' },
-  { id: '681177', category: 'herbal-tea' },
-  { id: '95091.', category: 'herbal-tea' },
-  { id: '184090', category: 'herbal-tea' },
-  { id: '761093', category: 'black-tea' },
-  { id: '721661', category: 'green-tea' },
-  { id: '690093', category: 'green-tea' },
-  { id: '780922', category: 'sauces' },
-  { id: '780921', category: 'sauces' },
-  { id: '72618', category: 'black-tea' },
-  { id: '6053', category: 'black-tea' },
-  { id: '72617', category: 'black-tea' },
-  { id: '168068', category: 'black-tea' },
-  { id: '6052', category: 'black-tea' },
-  { id: '761436', category: 'black-tea' },
-];
+// Used by index.ts for manually overriding scraped product data.
+// Is used for products that do not have listed sizes to be scraped, have incorrect names or categories,
+//  or should not be scraped at all. Overrides are loaded from a JSON or YAML file and validated on startup.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from "yaml";
+import { log, colour, logError, validCategories } from "./utilities";
+import { ProductOverride } from "./typings";
+
+const overrideFields = ["id", "name", "size", "unit", "quantity", "categories", "exclude"];
+const overrideUnits = ["mg", "g", "kg", "ml", "cl", "dl", "l", "ea"];
+
+let productOverrides = new Map<string, ProductOverride>();
+
+// establishProductOverrides()
+// ---------------------------
+// Loads overrides from PRODUCT_OVERRIDES_PATH in .env or the default src/product-overrides.json.
+// If there is no overrides file, no products are overridden. Returns the number of overrides.
+// Throws if any override is invalid, so a typo doesn't silently apply to the wrong product
+
+export function establishProductOverrides(
+  filePath = process.env.PRODUCT_OVERRIDES_PATH || "src/product-overrides.json"
+): number {
+  const overrides = fs.existsSync(filePath)
+    ? parseProductOverrides(fs.readFileSync(filePath, "utf-8"), filePath)
+    : [];
+  productOverrides = new Map(overrides.map((override) => [override.id, override]));
+  return productOverrides.size;
+}
+
+// getProductOverride()
+// --------------------
+
+export function getProductOverride(id: string): ProductOverride | undefined {
+  return productOverrides.get(id);
+}
+
+// isExcludedFromScrape()
+// ----------------------
+
+export function isExcludedFromScrape(id: string): boolean {
+  return productOverrides.get(id)?.exclude === true;
+}
+
+// parseProductOverrides()
+// -----------------------
+// Parses and validates overrides from JSON, or YAML for .yaml and .yml files, such as:
+//  [{ "id": "206889", "size": "180g" }, { "id": "790129", "categories": ["herbal-tea"] }]
+// Throws with every problem found if any override is invalid
+
+export function parseProductOverrides(text: string, fileName = "product-overrides.json"): ProductOverride[] {
+  const entries = readOverridesText(text, fileName);
+  const problems = lintProductOverrides(entries);
+  if (problems.length > 0) {
+    throw Error(`Invalid product overrides in ${fileName}:\n - ` + problems.join("\n - "));
+  }
+
+  // Ids written as numbers in YAML are stored as strings
+  return (entries as ProductOverride[]).map((entry) => ({ ...entry, id: String(entry.id) }));
+}
+
+// lintProductOverrides()
+// ----------------------
+// Returns a description of every problem found within the overrides, such as duplicate ids,
+//  ids which aren't only digits, unknown fields or categories, and incomplete unit overrides
+
+export function lintProductOverrides(entries: unknown): string[] {
+  if (!Array.isArray(entries)) return ["overrides must be an array"];
+
+  const problems: string[] = [];
+  const entryNumbersById: { [id: string]: number[] } = {};
+  entries.forEach((entry, index) => {
+    const entryName = `entry ${index + 1}`;
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      problems.push(`${entryName} must be an object`);
+      return;
+    }
+
+    const id = typeof entry.id === "string" || typeof entry.id === "number" ? String(entry.id) : undefined;
+    if (id === undefined || !/^\d+$/.test(id)) {
+      problems.push(`${entryName} has invalid id '${entry.id}' - ids must only contain digits`);
+    } else {
+      entryNumbersById[id] = [...(entryNumbersById[id] || []), index + 1];
+    }
+    const description = `${entryName} (id ${entry.id})`;
+
+    Object.keys(entry)
+      .filter((key) => !overrideFields.includes(key))
+      .forEach((key) => problems.push(`${description} has unknown field '${key}'`));
+    if (Object.keys(entry).filter((key) => key !== "id").length === 0) {
+      problems.push(`${description} has nothing to override`);
+    }
+
+    ["name", "size"].forEach((key) => {
+      if (entry[key] !== undefined && (typeof entry[key] !== "string" || !entry[key].trim())) {
+        problems.push(`${description} ${key} must be non-empty text`);
+      }
+    });
+
+    if (entry.categories !== undefined) {
+      if (!Array.isArray(entry.categories) || entry.categories.length === 0) {
+        problems.push(`${description} categories must be a list of categories`);
+      } else {
+        entry.categories
+          .filter((category: unknown) => !validCategories.includes(category as string))
+          .forEach((category: unknown) => problems.push(`${description} has unknown category '${category}'`));
+      }
+    }
+
+    // A unit override replaces the size used for unit prices, so needs both a unit and quantity
+    if ((entry.unit === undefined) !== (entry.quantity === undefined)) {
+      problems.push(`${description} needs both a unit and quantity`);
+    }
+    if (entry.unit !== undefined && !overrideUnits.includes(String(entry.unit).toLowerCase())) {
+      problems.push(`${description} has unknown unit '${entry.unit}' - valid units are: ${overrideUnits.join(", ")}`);
+    }
+    if (entry.quantity !== undefined && !(typeof entry.quantity === "number" && entry.quantity > 0)) {
+      problems.push(`${description} quantity must be a positive number`);
+    }
+
+    if (entry.exclude !== undefined && typeof entry.exclude !== "boolean") {
+      problems.push(`${description} exclude must be true or false`);
+    }
+  });
+
+  Object.keys(entryNumbersById)
+    .filter((id) => entryNumbersById[id].length > 1)
+    .forEach((id) => {
+      problems.push(`id ${id} is overridden more than once, in entries ${entryNumbersById[id].join(", ")}`);
+    });
+
+  return problems;
+}
+
+// listProductOverrides()
+// ----------------------
+// Logs every override in the overrides file, followed by any problems found.
+// Returns the number of problems, used by the 'overrides' argument
+
+export function listProductOverrides(
+  filePath = process.env.PRODUCT_OVERRIDES_PATH || "src/product-overrides.json"
+): number {
+  if (!fs.existsSync(filePath)) {
+    logError(`No product overrides file found at ${filePath}`);
+    return 0;
+  }
+
+  let entries: unknown;
+  try {
+    entries = readOverridesText(fs.readFileSync(filePath, "utf-8"), filePath);
+  } catch (error) {
+    logError((error as Error).message);
+    return 1;
+  }
+
+  if (Array.isArray(entries)) {
+    log(colour.yellow, `${entries.length} product overrides in ${filePath}`);
+    entries.forEach((entry) => {
+      const { id, ...overrides } = entry ?? {};
+      log(colour.sky, `${String(id).padStart(7)} | ${JSON.stringify(overrides)}`);
+    });
+  }
+
+  const problems = lintProductOverrides(entries);
+  problems.forEach((problem) => logError(`  ${problem}`));
+  log(problems.length > 0 ? colour.red : colour.green, `${problems.length} problems found`);
+  return problems.length;
+}
+
+// readOverridesText()
+// -------------------
+// Parses overrides text as YAML for .yaml and .yml files, otherwise as JSON
+
+function readOverridesText(text: string, fileName: string): unknown {
+  const extension = path.extname(fileName).toLowerCase();
+  try {
+    return extension === ".yaml" || extension === ".yml" ? YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw Error(`Unable to parse ${fileName}\n` + error);
+  }
+}
@@ -0,0 +1,32 @@
+// Selects which ProductStore database backend is used by index.ts when running in database mode
+
+import { ProductStore } from "./typings";
+import { supabaseStore } from "./supabasedb";
+import { cosmosStore } from "./cosmosdb";
+import { localStore } from "./localdb";
+import { sqliteStore } from "./sqlitedb";
+
+export const productStores: { [name: string]: ProductStore } = {
+  supabase: supabaseStore,
+  cosmosdb: cosmosStore,
+  local: localStore,
+  sqlite: sqliteStore,
+};
+
+// selectProductStore()
+// --------------------
+// Returns a ProductStore by name, such as from the 'db=cosmosdb' argument,
+//  falls back to DB_BACKEND in .env, then to Supabase
+
+export function selectProductStore(
+  storeName: string = process.env.DB_BACKEND || "supabase"
+): ProductStore {
+  const productStore = productStores[storeName.toLowerCase()];
+  if (productStore === undefined) {
+    throw Error(
+      `Unknown database backend '${storeName}' - ` +
+      `valid options are: ${Object.keys(productStores).join(", ")}`
+    );
+  }
+  return productStore;
+}
@@ -0,0 +1,92 @@
+// Used by index.ts for finding specials, Club prices and multibuy deals on a product listing card,
+//  so promotional prices can be recorded separately from regular prices
+
+import * as cheerio from "cheerio";
+import { MultibuyTerms, PromoInfo } from "./typings";
+
+// parsePromotion()
+// ----------------
+// Takes a product listing card and its displayed price, returns the regular price along with
+//  any promo price, promo type and multibuy terms found.
+// The displayed price is treated as a promo price when it is a special or Club price,
+//  multibuy deals only apply when buying multiple, so the displayed price stays as the regular price.
+
+export function parsePromotion(
+  card: cheerio.Cheerio<cheerio.Element>,
+  displayedPrice: number
+): PromoInfo {
+  // Badges are usually images, so their alt text is checked along with the badge and card text.
+  // The product title is left out, so names such as 'Special K' aren't taken as a promotion
+  const badgeAltText = card
+    .find("product-badge img, cdx-badge img, [class*='badge'] img")
+    .map((i, badge) => badge.attribs["alt"] || "")
+    .get()
+    .join(" ");
+  const badgeText = (card.find("product-badge, cdx-badge, [class*='badge']").text() + " " + badgeAltText)
+    .replace(/\s+/g, " ");
+  const titleText = card.find("h3").first().text();
+  const cardText = (card.text().replace(titleText, "") + " " + badgeAltText).replace(/\s+/g, " ");
+
+  const wasPrice = parseWasPrice(card, cardText);
+  const multibuy = parseMultibuy(cardText);
+  const isClubPrice = /club price/i.test(cardText);
+
+  // Only a promo badge marks a special, as subtitles such as 'Special Edition' are also shown on the card
+  const isSpecial =
+    (wasPrice !== undefined && wasPrice > displayedPrice) || /\b(special|on sale)\b/i.test(badgeText);
+
+  const promo: PromoInfo = {
+    regularPrice: wasPrice !== undefined && wasPrice > displayedPrice ? wasPrice : displayedPrice,
+  };
+
+  if (isClubPrice || isSpecial) {
+    promo.promoPrice = displayedPrice;
+    promo.promoType = isClubPrice ? "club" : "special";
+  } else if (multibuy !== undefined) {
+    promo.promoPrice = Math.round((multibuy.price / multibuy.quantity) * 100) / 100;
+    promo.promoType = "multibuy";
+  }
+  if (multibuy !== undefined) promo.multibuy = multibuy;
+
+  return promo;
+}
+
+// isPromoPrice()
+// --------------
+// Returns true if the displayed price is a promo price, used for flagging price history entries
+
+export function isPromoPrice(promo: PromoInfo): boolean {
+  return promo.promoType === "special" || promo.promoType === "club";
+}
+
+// parseWasPrice()
+// ---------------
+// Finds a previous price such as 'Was $6.00' or 'Non-member price $6.00',
+//  or a price within a struck-through or previous price element
+
+function parseWasPrice(card: cheerio.Cheerio<cheerio.Element>, cardText: string): number | undefined {
+  const wasMatch = cardText.match(
+    /(?:was|non-member price|usual price)\s*:?\s*\$\s*(\d+(?:\.\d{1,2})?)/i
+  );
+  if (wasMatch) return Number(wasMatch[1]);
+
+  const previousPriceText = card
+    .find("[class*='previous'], [class*='was'], s, del")
+    .first()
+    .text();
+  const previousPriceMatch = previousPriceText.match(/\$\s*(\d+(?:\.\d{1,2})?)/);
+  return previousPriceMatch ? Number(previousPriceMatch[1]) : undefined;
+}
+
+// parseMultibuy()
+// ---------------
+// Finds multibuy terms such as '2 for $5' or 'Any 3 for $10.00'
+
+function parseMultibuy(cardText: string): MultibuyTerms | undefined {
+  const multibuyMatch = cardText.match(/(\d+)\s+for\s+\$\s*(\d+(?:\.\d{1,2})?)/i);
+  if (!multibuyMatch) return undefined;
+
+  const quantity = Number(multibuyMatch[1]);
+  const price = Number(multibuyMatch[2]);
+  return quantity > 1 && price > 0 ? { quantity, price } : undefined;
+}
@@ -0,0 +1,46 @@
+// Used by index.ts for retrying failed page loads with exponential backoff and jitter
+
+import { setTimeout } from "timers/promises";
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// getBackoffDelay()
+// -----------------
+// Returns the delay before a retry, doubling with each attempt up to maxDelayMs.
+// Jitter randomises the delay between half and the full amount, so retries don't fall into lockstep.
+
+export function getBackoffDelay(
+  attempt: number,
+  options: RetryOptions,
+  random: () => number = Math.random
+): number {
+  const exponentialDelay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(exponentialDelay / 2 + random() * (exponentialDelay / 2));
+}
+
+// retryWithBackoff()
+// ------------------
+// Runs a task, retrying up to options.retries times if it throws.
+// onRetry is called before each retry, such as for logging.
+// The final error is re-thrown if every attempt fails.
+
+export async function retryWithBackoff<T>(
+  task: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  onRetry: (error: unknown, retryNumber: number, delayMs: number) => void = () => { }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= options.retries) throw error;
+      const delayMs = getBackoffDelay(attempt, options);
+      onRetry(error, attempt + 1, delayMs);
+      await setTimeout(delayMs);
+    }
+  }
+}
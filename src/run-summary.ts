@@ -0,0 +1,149 @@
+// Used by index.ts for totalling stats across a whole scrape run,
+//  writing them as a JSON report and logging them as a final table
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { log, colour, getTimeElapsedSince } from "./utilities";
+import { getStoreLocations } from "./store-locations";
+import { RunCheckpoint, RunSummary, ScrapeRun, ScrapeRunStatus, ScrapeStats } from "./typings";
+
+// createEmptyStats()
+// ------------------
+
+export function createEmptyStats(): ScrapeStats {
+  return {
+    scraped: 0,
+    newProducts: 0,
+    priceChanged: 0,
+    infoUpdated: 0,
+    alreadyUpToDate: 0,
+    failed: 0,
+    outOfStock: 0,
+    unscrapable: 0,
+  };
+}
+
+// addStats()
+// ----------
+// Adds each count from one set of stats into another
+
+export function addStats(target: ScrapeStats, source: ScrapeStats) {
+  (Object.keys(source) as (keyof ScrapeStats)[]).forEach((key) => {
+    target[key] = (target[key] || 0) + source[key];
+  });
+}
+
+// buildRunSummary()
+// -----------------
+// Builds the run summary from the run checkpoint, which holds stats for every completed url,
+//  including any urls completed before the run was resumed
+
+export function buildRunSummary(checkpoint: RunCheckpoint, endTime: number): RunSummary {
+  return {
+    runId: checkpoint.runId,
+    startTime: new Date(checkpoint.startTime).toISOString(),
+    endTime: new Date(endTime).toISOString(),
+    durationSeconds: Math.round((endTime - checkpoint.startTime) / 1000),
+    urlCount: checkpoint.categorisedUrls.length,
+    completedUrlCount: checkpoint.completedUrlCount,
+    failedPageCount: checkpoint.failedUrls.length,
+    totals: checkpoint.stats,
+    urls: checkpoint.urlSummaries,
+    storeSelections: checkpoint.storeSelections,
+  };
+}
+
+// buildScrapeRun()
+// ----------------
+// Builds the scrape run record stored in the database, along with the store location
+//  and command-line arguments the run was started with
+
+export function buildScrapeRun(
+  checkpoint: RunCheckpoint,
+  status: ScrapeRunStatus,
+  endTime: number,
+  storeLocation = getStoreLocations().join(", "),
+  args: string[] = process.argv.slice(2)
+): ScrapeRun {
+  const summary = buildRunSummary(checkpoint, endTime);
+  return {
+    id: summary.runId,
+    status,
+    startTime: summary.startTime,
+    endTime: summary.endTime,
+    durationSeconds: summary.durationSeconds,
+    storeLocation,
+    arguments: args,
+    urlCount: summary.urlCount,
+    completedUrlCount: summary.completedUrlCount,
+    totals: summary.totals,
+    urls: summary.urls,
+    failedUrls: checkpoint.failedUrls,
+    storeSelections: summary.storeSelections,
+  };
+}
+
+// writeRunSummary()
+// -----------------
+// Writes the run summary into REPORTS_DIR from .env or the default reports folder,
+//  returns the report file path
+
+export function writeRunSummary(
+  summary: RunSummary,
+  reportsDir = process.env.REPORTS_DIR || "reports"
+): string {
+  fs.mkdirSync(reportsDir, { recursive: true });
+  const filePath = path.join(reportsDir, `run-${summary.runId}.json`);
+  fs.writeFileSync(filePath, JSON.stringify(summary, null, 2));
+  return filePath;
+}
+
+// logRunSummary()
+// ---------------
+// Logs a table with one row per url, followed by the run totals
+
+export function logRunSummary(summary: RunSummary) {
+  const statsColumns = (stats: ScrapeStats) =>
+    `${String(stats.scraped).padStart(7)} | ${String(stats.newProducts).padStart(4)} | ` +
+    `${String(stats.priceChanged).padStart(5)} | ${String(stats.infoUpdated).padStart(4)} | ` +
+    `${String(stats.alreadyUpToDate).padStart(10)} | ${String(stats.failed).padStart(6)} | ` +
+    `${String(stats.outOfStock).padStart(12)} | ${String(stats.unscrapable).padStart(11)}`;
+
+  const header =
+    `${"Url".padEnd(50)} | Pages | Scraped | New  | Price | Info | Up-to-date | Failed | Out of Stock | Unscrapable | Time`;
+  log(colour.yellow, `\nRun ${summary.runId} Summary`);
+  log(colour.yellow, header);
+  log(colour.yellow, "".padEnd(header.length, "-"));
+
+  summary.urls.forEach((urlSummary) => {
+    const shortUrl =
+      (urlSummary.storeName ? `[${urlSummary.storeName}] ` : "") +
+      urlSummary.url
+        .replace(/\?.*/, "")
+        .replace(/https:\/\/(www\.)?woolworths\.co\.nz\/shop\/browse\//, "");
+    log(
+      urlSummary.failedPages > 0 ? colour.orange : colour.white,
+      `${shortUrl.slice(0, 50).padEnd(50)} | ${String(urlSummary.pagesScraped).padStart(5)} | ` +
+      `${statsColumns(urlSummary.stats)} | ${urlSummary.durationSeconds}s`
+    );
+  });
+
+  log(colour.yellow, "".padEnd(header.length, "-"));
+  log(
+    colour.sky,
+    `${"Totals".padEnd(50)} | ${"".padStart(5)} | ${statsColumns(summary.totals)} | ` +
+    getTimeElapsedSince(Date.now() - summary.durationSeconds * 1000)
+  );
+  if (summary.failedPageCount > 0) {
+    log(colour.orange, `${summary.failedPageCount} pages failed to load`);
+  }
+  summary.storeSelections
+    .filter((storeSelection) => !storeSelection.matched)
+    .forEach((storeSelection) => {
+      log(
+        colour.orange,
+        `Store location '${storeSelection.requestedName}' did not match ` +
+        `the active store '${storeSelection.resolvedName || "unknown"}'`
+      );
+    });
+}
@@ -0,0 +1,615 @@
+// Used by index.ts for storing products in a local SQLite database,
+//  allows database mode to be run offline and for stored results to be checked in tests
+
+import * as dotenv from "dotenv";
+dotenv.config();
+dotenv.config({ path: `.env.local`, override: true });
+
+import Database from "better-sqlite3";
+import * as fs from 'fs';
+import * as path from 'path';
+import { logError, log, colour } from "./utilities";
+import {
+  Availability, DatedAvailability, DatedPrice, Product, PromoType, UpsertResponse, ProductStore, ScrapeRun,
+  StorePrice, UnitPriceConfidence, DisplayUnit,
+} from "./typings";
+import { buildUpdatedProduct } from "./change-detection";
+import { uploadImageToLocal } from "./localdb";
+
+let db: Database.Database;
+
+// SQLite implementation of ProductStore, selected with 'db=sqlite'
+export const sqliteStore: ProductStore = {
+  name: "SQLite",
+  establish: establishSQLite,
+  upsertProduct: upsertProductToSQLite,
+  readProduct: readProductFromSQLite,
+  readProducts: readProductsFromSQLite,
+  uploadImage: uploadImageToLocal,
+  upsertRun: upsertRunToSQLite,
+  close: async () => { db?.close(); },
+};
+
+// Row formats as stored in the products, price_history, availability_history,
+//  store_prices, store_price_history and scrape_runs tables
+interface ProductRow {
+  id: string;
+  name: string;
+  size: string | null;
+  currentPrice: number;
+  lastUpdated: string;
+  lastChecked: string;
+  ingredients: string;
+  ingredientsLastChecked: string | null;
+  sourceSite: string;
+  category: string;
+  unitPrice: number | null;
+  unitName: string | null;
+  originalUnitQuantity: number | null;
+  regularPrice: number | null;
+  promoPrice: number | null;
+  promoType: string | null;
+  multibuy: string | null;
+  availability: string | null;
+  lastCheckedRunId: string | null;
+  nutrition: string | null;
+  allergens: string | null;
+  allergenDeclarations: string | null;
+  dietaryTags: string | null;
+  ingredientTree: string | null;
+  unitPriceConfidence: string | null;
+  unitPriceReason: string | null;
+  displayUnitPrice: number | null;
+  displayUnitName: string | null;
+  siteUnitPrice: number | null;
+  siteUnitName: string | null;
+}
+
+interface PriceHistoryRow {
+  productId: string;
+  date: string;
+  price: number;
+  isPromo: number | null;
+}
+
+interface AvailabilityHistoryRow {
+  productId: string;
+  date: string;
+  availability: string;
+}
+
+interface StorePriceRow {
+  productId: string;
+  storeName: string;
+  currentPrice: number;
+  lastUpdated: string;
+  lastChecked: string;
+}
+
+interface StorePriceHistoryRow extends PriceHistoryRow {
+  storeName: string;
+}
+
+interface ScrapeRunRow {
+  id: string;
+  status: string;
+  startTime: string;
+  endTime: string;
+  durationSeconds: number;
+  storeLocation: string;
+  arguments: string;
+  urlCount: number;
+  completedUrlCount: number;
+  totals: string;
+  urls: string;
+  failedUrls: string;
+  storeSelections: string;
+}
+
+// establishSQLite()
+// -----------------
+// Opens the SQLite file set in SQLITE_DB_PATH and creates tables if they don't yet exist.
+// A path of ':memory:' can be used for a temporary in-memory database
+
+export async function establishSQLite(
+  filePath = process.env.SQLITE_DB_PATH || "data/products.db"
+) {
+  if (filePath !== ":memory:") fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  try {
+    db = new Database(filePath);
+  } catch (error) {
+    throw Error(error + `\n\nUnable to open SQLite database ${filePath}`);
+  }
+
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS products (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      size TEXT,
+      currentPrice REAL NOT NULL,
+      lastUpdated TEXT NOT NULL,
+      lastChecked TEXT NOT NULL,
+      ingredients TEXT NOT NULL DEFAULT '[]',
+      ingredientsLastChecked TEXT,
+      sourceSite TEXT NOT NULL,
+      category TEXT NOT NULL DEFAULT '[]',
+      unitPrice REAL,
+      unitName TEXT,
+      originalUnitQuantity REAL,
+      regularPrice REAL,
+      promoPrice REAL,
+      promoType TEXT,
+      multibuy TEXT,
+      availability TEXT,
+      lastCheckedRunId TEXT,
+      nutrition TEXT,
+      allergens TEXT,
+      allergenDeclarations TEXT,
+      dietaryTags TEXT,
+      ingredientTree TEXT,
+      unitPriceConfidence TEXT,
+      unitPriceReason TEXT,
+      displayUnitPrice REAL,
+      displayUnitName TEXT,
+      siteUnitPrice REAL,
+      siteUnitName TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS price_history (
+      productId TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      date TEXT NOT NULL,
+      price REAL NOT NULL,
+      isPromo INTEGER,
+      PRIMARY KEY (productId, date)
+    );
+
+    CREATE TABLE IF NOT EXISTS availability_history (
+      productId TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      date TEXT NOT NULL,
+      availability TEXT NOT NULL,
+      PRIMARY KEY (productId, date)
+    );
+
+    CREATE TABLE IF NOT EXISTS store_prices (
+      productId TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      storeName TEXT NOT NULL,
+      currentPrice REAL NOT NULL,
+      lastUpdated TEXT NOT NULL,
+      lastChecked TEXT NOT NULL,
+      PRIMARY KEY (productId, storeName)
+    );
+
+    CREATE TABLE IF NOT EXISTS store_price_history (
+      productId TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      storeName TEXT NOT NULL,
+      date TEXT NOT NULL,
+      price REAL NOT NULL,
+      isPromo INTEGER,
+      PRIMARY KEY (productId, storeName, date)
+    );
+
+    CREATE TABLE IF NOT EXISTS scrape_runs (
+      id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      startTime TEXT NOT NULL,
+      endTime TEXT NOT NULL,
+      durationSeconds INTEGER NOT NULL,
+      storeLocation TEXT NOT NULL DEFAULT '',
+      arguments TEXT NOT NULL DEFAULT '[]',
+      urlCount INTEGER NOT NULL,
+      completedUrlCount INTEGER NOT NULL,
+      totals TEXT NOT NULL DEFAULT '{}',
+      urls TEXT NOT NULL DEFAULT '[]',
+      failedUrls TEXT NOT NULL DEFAULT '[]',
+      storeSelections TEXT NOT NULL DEFAULT '[]'
+    );
+  `);
+
+  // Columns added after a database was first created
+  addMissingColumns("products", {
+    ingredientsLastChecked: "TEXT",
+    regularPrice: "REAL",
+    promoPrice: "REAL",
+    promoType: "TEXT",
+    multibuy: "TEXT",
+    availability: "TEXT",
+    lastCheckedRunId: "TEXT",
+    nutrition: "TEXT",
+    allergens: "TEXT",
+    allergenDeclarations: "TEXT",
+    dietaryTags: "TEXT",
+    ingredientTree: "TEXT",
+    unitPriceConfidence: "TEXT",
+    unitPriceReason: "TEXT",
+    displayUnitPrice: "REAL",
+    displayUnitName: "TEXT",
+    siteUnitPrice: "REAL",
+    siteUnitName: "TEXT",
+  });
+  addMissingColumns("price_history", {
+    isPromo: "INTEGER",
+  });
+  addMissingColumns("scrape_runs", {
+    storeSelections: "TEXT NOT NULL DEFAULT '[]'",
+  });
+
+  const productCount = (db.prepare("SELECT COUNT(*) AS count FROM products").get() as { count: number }).count;
+  log(colour.yellow, `Using SQLite database ${filePath} - ${productCount} existing products`);
+}
+
+// addMissingColumns()
+// -------------------
+// Adds any columns not yet in an existing table, so older database files can still be used
+
+function addMissingColumns(table: string, columns: { [name: string]: string }) {
+  const existingColumns = (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[])
+    .map((column) => column.name);
+
+  Object.keys(columns).forEach((name) => {
+    if (!existingColumns.includes(name)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${columns[name]}`);
+    }
+  });
+}
+
+// readProductFromSQLite()
+// -----------------------
+// Reads a single product by ID along with its price and availability history, and prices at each store,
+//  returns undefined if not found
+
+export async function readProductFromSQLite(id: string): Promise<Product | undefined> {
+  const row = db.prepare("SELECT * FROM products WHERE id = ?").get(id) as ProductRow | undefined;
+  if (row === undefined) return undefined;
+
+  const priceHistoryRows = db
+    .prepare("SELECT * FROM price_history WHERE productId = ? ORDER BY date")
+    .all(id) as PriceHistoryRow[];
+  const availabilityHistoryRows = db
+    .prepare("SELECT * FROM availability_history WHERE productId = ? ORDER BY date")
+    .all(id) as AvailabilityHistoryRow[];
+
+  const product = rowToProduct(row, priceHistoryRows, availabilityHistoryRows);
+  const storePrices = readStorePrices(id);
+  if (storePrices !== undefined) product.storePrices = storePrices;
+  return product;
+}
+
+// readStorePrices()
+// -----------------
+// Reads the price and price history of a product at each store location, returns undefined if there are none
+
+function readStorePrices(id: string): { [storeName: string]: StorePrice } | undefined {
+  const storePriceRows = db
+    .prepare("SELECT * FROM store_prices WHERE productId = ? ORDER BY storeName")
+    .all(id) as StorePriceRow[];
+  if (storePriceRows.length === 0) return undefined;
+
+  const storePriceHistoryRows = db
+    .prepare("SELECT * FROM store_price_history WHERE productId = ? ORDER BY date")
+    .all(id) as StorePriceHistoryRow[];
+
+  const storePrices: { [storeName: string]: StorePrice } = {};
+  storePriceRows.forEach((storePriceRow) => {
+    storePrices[storePriceRow.storeName] = {
+      currentPrice: storePriceRow.currentPrice,
+      lastUpdated: rowToDate(storePriceRow.lastUpdated),
+      lastChecked: rowToDate(storePriceRow.lastChecked),
+      priceHistory: storePriceHistoryRows
+        .filter((historyRow) => historyRow.storeName === storePriceRow.storeName)
+        .map(rowToDatedPrice),
+    };
+  });
+  return storePrices;
+}
+
+// readProductsFromSQLite()
+// ------------------------
+// Reads every product with one of the IDs, products not found are left out
+
+export async function readProductsFromSQLite(ids: string[]): Promise<Product[]> {
+  const dbProducts = await Promise.all(ids.map((id) => readProductFromSQLite(id)));
+  return dbProducts.filter((dbProduct): dbProduct is Product => dbProduct !== undefined);
+}
+
+// upsertProductToSQLite()
+// -----------------------
+// Inserts or updates a product and its price history,
+//  returns an UpsertResponse based on if and how the Product was updated
+
+export async function upsertProductToSQLite(
+  scrapedProduct: Product,
+  storeName?: string,
+  dbProduct?: Product
+): Promise<UpsertResponse> {
+  try {
+    // Read the existing product, unless it was already read this run
+    dbProduct ??= await readProductFromSQLite(scrapedProduct.id);
+
+    // If an existing product was found, check for update values before saving
+    if (dbProduct !== undefined) {
+      const response = buildUpdatedProduct(scrapedProduct, dbProduct, storeName);
+      writeProduct(response.product);
+      return response.upsertType;
+    }
+
+    // Otherwise store as a new product
+    writeProduct(scrapedProduct);
+
+    console.log(
+      `  New Product: ${scrapedProduct.name.slice(0, 47).padEnd(47)}` +
+      ` | $ ${scrapedProduct.currentPrice}`
+    );
+    return UpsertResponse.NewProduct;
+  } catch (e: any) {
+    logError(e.message);
+    return UpsertResponse.Failed;
+  }
+}
+
+// readRunFromSQLite()
+// -------------------
+// Reads a single scrape run by run ID, returns undefined if not found
+
+export async function readRunFromSQLite(id: string): Promise<ScrapeRun | undefined> {
+  const row = db.prepare("SELECT * FROM scrape_runs WHERE id = ?").get(id) as ScrapeRunRow | undefined;
+  if (row === undefined) return undefined;
+
+  return {
+    ...row,
+    status: row.status as ScrapeRun["status"],
+    arguments: JSON.parse(row.arguments),
+    totals: JSON.parse(row.totals),
+    urls: JSON.parse(row.urls),
+    failedUrls: JSON.parse(row.failedUrls),
+    storeSelections: JSON.parse(row.storeSelections),
+  };
+}
+
+// upsertRunToSQLite()
+// -------------------
+// Inserts or replaces a scrape run, the same run is updated as each url is completed
+
+export async function upsertRunToSQLite(run: ScrapeRun): Promise<boolean> {
+  try {
+    const row: ScrapeRunRow = {
+      ...run,
+      arguments: JSON.stringify(run.arguments),
+      totals: JSON.stringify(run.totals),
+      urls: JSON.stringify(run.urls),
+      failedUrls: JSON.stringify(run.failedUrls),
+      storeSelections: JSON.stringify(run.storeSelections),
+    };
+    db.prepare(`
+      INSERT OR REPLACE INTO scrape_runs (
+        id, status, startTime, endTime, durationSeconds, storeLocation, arguments,
+        urlCount, completedUrlCount, totals, urls, failedUrls, storeSelections
+      ) VALUES (
+        @id, @status, @startTime, @endTime, @durationSeconds, @storeLocation, @arguments,
+        @urlCount, @completedUrlCount, @totals, @urls, @failedUrls, @storeSelections
+      )
+    `).run(row);
+    return true;
+  } catch (e: any) {
+    logError(`Unable to store scrape run ${run.id} - ${e.message}`);
+    return false;
+  }
+}
+
+// writeProduct()
+// --------------
+// Inserts or replaces a product row and its store prices,
+//  and any price or availability history entries not yet stored
+
+function writeProduct(product: Product) {
+  const upsertProductRow = db.prepare(`
+    INSERT INTO products (
+      id, name, size, currentPrice, lastUpdated, lastChecked, ingredients, ingredientsLastChecked,
+      sourceSite, category, unitPrice, unitName, originalUnitQuantity,
+      regularPrice, promoPrice, promoType, multibuy, availability, lastCheckedRunId, nutrition,
+      allergens, allergenDeclarations, dietaryTags, ingredientTree, unitPriceConfidence, unitPriceReason,
+      displayUnitPrice, displayUnitName, siteUnitPrice, siteUnitName
+    ) VALUES (
+      @id, @name, @size, @currentPrice, @lastUpdated, @lastChecked, @ingredients, @ingredientsLastChecked,
+      @sourceSite, @category, @unitPrice, @unitName, @originalUnitQuantity,
+      @regularPrice, @promoPrice, @promoType, @multibuy, @availability, @lastCheckedRunId, @nutrition,
+      @allergens, @allergenDeclarations, @dietaryTags, @ingredientTree, @unitPriceConfidence, @unitPriceReason,
+      @displayUnitPrice, @displayUnitName, @siteUnitPrice, @siteUnitName
+    )
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      size = excluded.size,
+      currentPrice = excluded.currentPrice,
+      lastUpdated = excluded.lastUpdated,
+      lastChecked = excluded.lastChecked,
+      ingredients = excluded.ingredients,
+      ingredientsLastChecked = excluded.ingredientsLastChecked,
+      sourceSite = excluded.sourceSite,
+      category = excluded.category,
+      unitPrice = excluded.unitPrice,
+      unitName = excluded.unitName,
+      originalUnitQuantity = excluded.originalUnitQuantity,
+      regularPrice = excluded.regularPrice,
+      promoPrice = excluded.promoPrice,
+      promoType = excluded.promoType,
+      multibuy = excluded.multibuy,
+      availability = excluded.availability,
+      lastCheckedRunId = excluded.lastCheckedRunId,
+      nutrition = excluded.nutrition,
+      allergens = excluded.allergens,
+      allergenDeclarations = excluded.allergenDeclarations,
+      dietaryTags = excluded.dietaryTags,
+      ingredientTree = excluded.ingredientTree,
+      unitPriceConfidence = excluded.unitPriceConfidence,
+      unitPriceReason = excluded.unitPriceReason,
+      displayUnitPrice = excluded.displayUnitPrice,
+      displayUnitName = excluded.displayUnitName,
+      siteUnitPrice = excluded.siteUnitPrice,
+      siteUnitName = excluded.siteUnitName
+  `);
+  const insertDatedPrice = db.prepare(`
+    INSERT OR IGNORE INTO price_history (productId, date, price, isPromo) VALUES (?, ?, ?, ?)
+  `);
+  const upsertStorePriceRow = db.prepare(`
+    INSERT INTO store_prices (productId, storeName, currentPrice, lastUpdated, lastChecked)
+    VALUES (@productId, @storeName, @currentPrice, @lastUpdated, @lastChecked)
+    ON CONFLICT(productId, storeName) DO UPDATE SET
+      currentPrice = excluded.currentPrice,
+      lastUpdated = excluded.lastUpdated,
+      lastChecked = excluded.lastChecked
+  `);
+  const insertStoreDatedPrice = db.prepare(`
+    INSERT OR IGNORE INTO store_price_history (productId, storeName, date, price, isPromo) VALUES (?, ?, ?, ?, ?)
+  `);
+  const insertDatedAvailability = db.prepare(`
+    INSERT OR IGNORE INTO availability_history (productId, date, availability) VALUES (?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    upsertProductRow.run(productToRow(product));
+    (product.priceHistory || []).forEach((datedPrice) => {
+      insertDatedPrice.run(
+        product.id,
+        toDateString(datedPrice.date),
+        datedPrice.price,
+        datedPrice.isPromo === undefined ? null : Number(datedPrice.isPromo)
+      );
+    });
+    Object.entries(product.storePrices || {}).forEach(([storeName, storePrice]) => {
+      upsertStorePriceRow.run({
+        productId: product.id,
+        storeName,
+        currentPrice: storePrice.currentPrice,
+        lastUpdated: toDateString(storePrice.lastUpdated),
+        lastChecked: toDateString(storePrice.lastChecked),
+      });
+      (storePrice.priceHistory || []).forEach((datedPrice) => {
+        insertStoreDatedPrice.run(
+          product.id,
+          storeName,
+          toDateString(datedPrice.date),
+          datedPrice.price,
+          datedPrice.isPromo === undefined ? null : Number(datedPrice.isPromo)
+        );
+      });
+    });
+    (product.availabilityHistory || []).forEach((datedAvailability) => {
+      insertDatedAvailability.run(
+        product.id,
+        toDateString(datedAvailability.date),
+        datedAvailability.availability
+      );
+    });
+  })();
+}
+
+// productToRow() / rowToProduct() / rowToDatedPrice() / rowToDate()
+// -----------------------------------------------------------------
+// Convert between Product objects and table rows, arrays are stored as JSON text and dates as ISO text
+
+function productToRow(product: Product): ProductRow {
+  return {
+    id: product.id,
+    name: product.name,
+    size: product.size ?? null,
+    currentPrice: product.currentPrice,
+    lastUpdated: toDateString(product.lastUpdated),
+    lastChecked: toDateString(product.lastChecked),
+    ingredients: JSON.stringify(product.ingredients || []),
+    ingredientsLastChecked: product.ingredientsLastChecked
+      ? toDateString(product.ingredientsLastChecked)
+      : null,
+    sourceSite: product.sourceSite,
+    category: JSON.stringify(product.category || []),
+    unitPrice: product.unitPrice ?? null,
+    unitName: product.unitName ?? null,
+    originalUnitQuantity: product.originalUnitQuantity ?? null,
+    regularPrice: product.regularPrice ?? null,
+    promoPrice: product.promoPrice ?? null,
+    promoType: product.promoType ?? null,
+    multibuy: product.multibuy ? JSON.stringify(product.multibuy) : null,
+    availability: product.availability ?? null,
+    lastCheckedRunId: product.lastCheckedRunId ?? null,
+    nutrition: product.nutrition ? JSON.stringify(product.nutrition) : null,
+    allergens: product.allergens ? JSON.stringify(product.allergens) : null,
+    allergenDeclarations: product.allergenDeclarations ? JSON.stringify(product.allergenDeclarations) : null,
+    dietaryTags: product.dietaryTags ? JSON.stringify(product.dietaryTags) : null,
+    ingredientTree: product.ingredientTree ? JSON.stringify(product.ingredientTree) : null,
+    unitPriceConfidence: product.unitPriceConfidence ?? null,
+    unitPriceReason: product.unitPriceReason ?? null,
+    displayUnitPrice: product.displayUnitPrice ?? null,
+    displayUnitName: product.displayUnitName ?? null,
+    siteUnitPrice: product.siteUnitPrice ?? null,
+    siteUnitName: product.siteUnitName ?? null,
+  };
+}
+
+function rowToProduct(
+  row: ProductRow,
+  priceHistoryRows: PriceHistoryRow[],
+  availabilityHistoryRows: AvailabilityHistoryRow[]
+): Product {
+  const product: Product = {
+    id: row.id,
+    name: row.name,
+    currentPrice: row.currentPrice,
+    lastUpdated: rowToDate(row.lastUpdated),
+    lastChecked: rowToDate(row.lastChecked),
+    priceHistory: priceHistoryRows.map(rowToDatedPrice),
+    ingredients: JSON.parse(row.ingredients),
+    sourceSite: row.sourceSite,
+    category: JSON.parse(row.category),
+  };
+  if (row.size !== null) product.size = row.size;
+  if (row.ingredientsLastChecked !== null) product.ingredientsLastChecked = rowToDate(row.ingredientsLastChecked);
+  if (row.unitPrice !== null) product.unitPrice = row.unitPrice;
+  if (row.unitName !== null) product.unitName = row.unitName;
+  if (row.originalUnitQuantity !== null) product.originalUnitQuantity = row.originalUnitQuantity;
+  if (row.regularPrice !== null) product.regularPrice = row.regularPrice;
+  if (row.promoPrice !== null) product.promoPrice = row.promoPrice;
+  if (row.promoType !== null) product.promoType = row.promoType as PromoType;
+  if (row.multibuy !== null) product.multibuy = JSON.parse(row.multibuy);
+  if (row.nutrition !== null) product.nutrition = JSON.parse(row.nutrition);
+  if (row.allergens !== null) product.allergens = JSON.parse(row.allergens);
+  if (row.allergenDeclarations !== null) product.allergenDeclarations = JSON.parse(row.allergenDeclarations);
+  if (row.dietaryTags !== null) product.dietaryTags = JSON.parse(row.dietaryTags);
+  if (row.ingredientTree !== null) product.ingredientTree = JSON.parse(row.ingredientTree);
+  if (row.unitPriceConfidence !== null) {
+    product.unitPriceConfidence = row.unitPriceConfidence as UnitPriceConfidence;
+  }
+  if (row.unitPriceReason !== null) product.unitPriceReason = row.unitPriceReason;
+  if (row.displayUnitPrice !== null) product.displayUnitPrice = row.displayUnitPrice;
+  if (row.displayUnitName !== null) product.displayUnitName = row.displayUnitName as DisplayUnit;
+  if (row.siteUnitPrice !== null) product.siteUnitPrice = row.siteUnitPrice;
+  if (row.siteUnitName !== null) product.siteUnitName = row.siteUnitName;
+  if (row.availability !== null) {
+    product.availability = row.availability as Availability;
+    product.availabilityHistory = availabilityHistoryRows.map((historyRow): DatedAvailability => ({
+      date: rowToDate(historyRow.date),
+      availability: historyRow.availability as Availability,
+    }));
+  }
+  if (row.lastCheckedRunId !== null) product.lastCheckedRunId = row.lastCheckedRunId;
+  return product;
+}
+
+function rowToDatedPrice(historyRow: PriceHistoryRow): DatedPrice {
+  const datedPrice: DatedPrice = { date: rowToDate(historyRow.date), price: historyRow.price };
+  if (historyRow.isPromo !== null) datedPrice.isPromo = historyRow.isPromo === 1;
+  return datedPrice;
+}
+
+function rowToDate(dateText: string): Date {
+  return new Date(dateText);
+}
+
+// toDateString()
+// --------------
+// Dates may be Date objects when scraped, or strings when read back from the database
+
+function toDateString(date: Date | string): string {
+  return new Date(date).toISOString();
+}
@@ -0,0 +1,96 @@
+// Used by index.ts for choosing which store locations are scraped in a run,
+//  and by change-detection.ts for knowing which store the main product price comes from
+
+import { CategorisedUrl } from "./typings";
+
+let storeLocations: string[] = [];
+
+// parseStoreNames()
+// -----------------
+// Splits a comma separated list of store location names, such as from STORE_NAMES in .env
+
+export function parseStoreNames(text: string): string[] {
+  return text
+    .split(",")
+    .map((storeName) => storeName.trim())
+    .filter((storeName) => storeName.length > 0);
+}
+
+// establishStoreLocations()
+// -------------------------
+// Sets the store locations to be scraped, from STORE_NAMES or STORE_NAME in .env.
+// A subset can be selected with the 'stores=' argument, names are matched case-insensitively
+//  to the configured names, and any other names are used as given.
+// The first store is the primary store, which sets each product's main price.
+
+export function establishStoreLocations(
+  selectedNames?: string[],
+  configuredNames = parseStoreNames(process.env.STORE_NAMES || process.env.STORE_NAME || "")
+): string[] {
+  storeLocations =
+    selectedNames === undefined
+      ? configuredNames
+      : selectedNames.map(
+        (name) => configuredNames.find((configured) => configured.toLowerCase() === name.toLowerCase()) ?? name
+      );
+  return storeLocations;
+}
+
+// getStoreLocations()
+// -------------------
+
+export function getStoreLocations(): string[] {
+  return storeLocations;
+}
+
+// hasMultipleStoreLocations()
+// ---------------------------
+// Returns true if more than one store location is scraped, only then are per-store prices recorded
+
+export function hasMultipleStoreLocations(): boolean {
+  return storeLocations.length > 1;
+}
+
+// isPrimaryStore()
+// ----------------
+// Returns true if prices from this store should set the main product price,
+//  which is also the case when no store locations are being used
+
+export function isPrimaryStore(storeName?: string): boolean {
+  return storeName === undefined || storeLocations.length === 0 || storeName === storeLocations[0];
+}
+
+// expandUrlsPerStore()
+// --------------------
+// Repeats every url for each store location, so each store's prices are scraped in turn.
+// Urls already set to a store, such as failed urls being retried, are left as they are.
+
+export function expandUrlsPerStore(categorisedUrls: CategorisedUrl[]): CategorisedUrl[] {
+  if (storeLocations.length === 0) return categorisedUrls;
+
+  const storeUrls = categorisedUrls.filter((categorisedUrl) => categorisedUrl.storeName !== undefined);
+  const unassignedUrls = categorisedUrls.filter((categorisedUrl) => categorisedUrl.storeName === undefined);
+  return [
+    ...storeUrls,
+    ...storeLocations.flatMap((storeName) =>
+      unassignedUrls.map((categorisedUrl) => ({ ...categorisedUrl, storeName }))
+    ),
+  ];
+}
+
+// isStoreNameMatch()
+// ------------------
+// Compares a requested store location with the name of the store the site reports as active,
+//  ignoring case, spacing, punctuation and any supermarket name before the location,
+//  such as 'Mt Albert' and 'Woolworths Mt Albert'. Otherwise the names must match exactly,
+//  so 'Auckland' doesn't match 'Auckland Central'
+
+export function isStoreNameMatch(requestedName: string, resolvedName: string | undefined): boolean {
+  if (resolvedName === undefined) return false;
+  const normalise = (name: string) =>
+    name.toLowerCase().replace(/[^a-z0-9]/g, "").replace(/^(woolworths|countdown)/, "");
+  const requested = normalise(requestedName);
+  const resolved = normalise(resolvedName);
+  if (requested.length === 0 || resolved.length === 0) return false;
+  return requested === resolved;
+}
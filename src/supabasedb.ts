@@ -5,13 +5,24 @@ dotenv.config();
 dotenv.config({ path: `.env.local`, override: true });
 
 import { createClient } from '@supabase/supabase-js';
-import { logError, log, colour, validCategories } from "./utilities";
-import { Product, UpsertResponse, ProductResponse } from "./typings";
-import * as fs from 'fs';
-import * as path from 'path';
+import { logError, log, colour } from "./utilities";
+import { Product, UpsertResponse, ProductStore, ScrapeRun } from "./typings";
+import { buildUpdatedProduct } from "./change-detection";
+import { uploadImageToLocal } from "./localdb";
 
 let supabase;
 
+// Supabase implementation of ProductStore, selected with 'db=supabase'
+export const supabaseStore: ProductStore = {
+  name: "Supabase",
+  establish: establishSupabase,
+  upsertProduct: upsertProductToSupabase,
+  readProduct: readProductFromSupabase,
+  readProducts: readProductsFromSupabase,
+  uploadImage: uploadImageToLocal,
+  upsertRun: upsertRunToSupabase,
+  close: async () => { },
+};
 
 export async function establishSupabase() {
   // Get CosmosDB connection string stored in .env
@@ -20,8 +31,46 @@ export async function establishSupabase() {
   if (typeof supabaseUrl === 'string' && typeof supabaseKey === 'string') {
     supabase = createClient(supabaseUrl, supabaseKey);
   } else {
-    throw new Error('Supabase URL or key is missing or not a string.');
+    throw new Error(
+      'Supabase URL or key is missing or not a string. ' +
+      'Use db=sqlite or db=local to run database mode without a Supabase account.'
+    );
+  }
+}
+
+// readProductFromSupabase()
+// -------------------------
+// Reads a single product by ID, returns undefined if not found.
+// Throws if the product couldn't be read, so a failed read isn't mistaken for a new product
+
+export async function readProductFromSupabase(id: string): Promise<Product | undefined> {
+  const { data: dbProduct, error } = await supabase
+    .from('products')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  // PGRST116 is returned when no product was found
+  if (error && error.code !== 'PGRST116') {
+    throw Error(`Unable to read product ${id} - ${error.message}`);
   }
+  return dbProduct ? (dbProduct as Product) : undefined;
+}
+
+// readProductsFromSupabase()
+// --------------------------
+// Reads every product with one of the IDs in a single query, products not found are left out.
+// Throws if the products couldn't be read
+
+export async function readProductsFromSupabase(ids: string[]): Promise<Product[]> {
+  if (ids.length === 0) return [];
+  const { data: dbProducts, error } = await supabase
+    .from('products')
+    .select('*')
+    .in('id', ids);
+
+  if (error) throw Error(`Unable to read products - ${error.message}`);
+  return (dbProducts || []) as Product[];
 }
 
 // upsertProductToSupabase()
@@ -30,24 +79,17 @@ export async function establishSupabase() {
 //  returns an UpsertResponse based on if and how the Product was updated
 
 export async function upsertProductToSupabase(
-  scrapedProduct: Product
+  scrapedProduct: Product,
+  storeName?: string,
+  dbProduct?: Product
 ): Promise<UpsertResponse> {
   try {
-    // Check Supabase for any existing item using id and name as the partition key
-    let { data: dbProduct, error } = await supabase
-      .from('products')
-      .select('*')
-      .eq('id', scrapedProduct.id)
-      .single();
-
-    if (error && error.code !== 'PGRST116') {
-        logError(error.message);
-        return UpsertResponse.Failed;
-    }
+    // Check Supabase for any existing item using id, unless it was already read this run
+    dbProduct ??= await readProductFromSupabase(scrapedProduct.id);
 
     // If an existing item was found in Supabase, check for update values before uploading
     if (dbProduct) {
-      const response = buildUpdatedProduct(scrapedProduct, dbProduct);
+      const response = buildUpdatedProduct(scrapedProduct, dbProduct, storeName);
 
       // Send updated product to Supabase
       let { data, error: upsertError } = await supabase
@@ -99,7 +141,7 @@ export async function upsertProductToSupabase(
         const dbProduct = resources[0] as Product;
 
         // Update product with new name
-        const response = buildUpdatedProduct(scrapedProduct, dbProduct);
+        const response = buildUpdatedProduct(scrapedProduct, dbProduct, storeName);
         response.product.name = scrapedProduct.name;
 
         // Send updated product to Supabase
@@ -132,11 +174,29 @@ export async function upsertProductToSupabase(
   }
 }
 
+// upsertRunToSupabase()
+// ---------------------
+// Inserts or updates a scrape run in the scrape_runs table, returns false if it failed
+
+export async function upsertRunToSupabase(run: ScrapeRun): Promise<boolean> {
+  try {
+    const { error } = await supabase.from('scrape_runs').upsert(run);
+    if (error) {
+      logError(`Unable to store scrape run ${run.id} - ${error.message}`);
+      return false;
+    }
+    return true;
+  } catch (e: any) {
+    logError(`Unable to store scrape run ${run.id} - ${e.message}`);
+    return false;
+  }
+}
+
 // uploadImageToSupabase()
 // ----------------
 // Uploads an image to supabase for a product
 
-export async function uploadImageToSupabase(imgUrl, product) {
+export async function uploadImageToSupabase(imgUrl: string, product: Product): Promise<boolean> {
   // Check if passed in url is valid, return if not
   if (imgUrl === undefined || !imgUrl.includes("http")) {
     log(colour.grey, `  Image ${product.id} has invalid url: ${imgUrl}`);
@@ -179,159 +239,3 @@ export async function uploadImageToSupabase(imgUrl, product) {
   }
 }
 
-// uploadImageToLocal()
-// ----------------
-// Uploads an image to supabase for a product
-
-export async function uploadImageToLocal(imgUrl, product) {
-  // Check if passed in url is valid, return if not
-  if (imgUrl === undefined || !imgUrl.includes("http")) {
-    log(colour.grey, `  Image ${product.id} has invalid url: ${imgUrl}`);
-    return false;
-  }
-  try {
-   // Fetch the image from the URL
-  const response = await fetch(imgUrl);
-
-  if (!response.ok) {
-    log(colour.grey, `  Image ${product.id} unavailable to be downloaded`);
-    return false;
-  }
-
-  const imageBuffer = await response.arrayBuffer();
-
-  // Create images directory if it doesn't exist
-  const fileName = `${product.id}.jpg`;
-  const imagesDir = path.join(__dirname, 'images');
-  if (!fs.existsSync(imagesDir)) {
-    fs.mkdirSync(imagesDir);
-  }
-
-  // Define the file path
-  const filePath = path.join(imagesDir, fileName);
-
-  // Save the image to the local folder
-  fs.writeFileSync(filePath, new Uint8Array(imageBuffer));
-
-  // Log for successful upload
-  log(colour.grey, `  Image ${product.id} successfully downloaded and saved`);
-
-    return true;
-  } catch (error) {
-    log(colour.grey, `  Image ${product.id} unable to be processed: ${error.message}`);
-    return false;
-  }
-}
-
-// buildUpdatedProduct()
-// ---------------------
-// This takes a freshly scraped product and compares it with a found database product.
-// It returns an updated product with data from both product versions
-
-function buildUpdatedProduct(
-  scrapedProduct: Product,
-  dbProduct: Product
-): ProductResponse {
-  // Date objects pulled from Supabase need to re-parsed as strings in format yyyy-mm-dd
-  let dbDay = dbProduct.lastUpdated.toString().slice(0, 10);
-  let scrapedDay = scrapedProduct.lastUpdated.toISOString().slice(0, 10);
-
-  // Measure the ingredients difference between the new scraped product and the old db product
-  const ingredientsDifferent = !(
-    dbProduct.ingredients.length === scrapedProduct.ingredients.length &&
-    dbProduct.ingredients.every((value, index) => value === scrapedProduct.ingredients[index])
-  );
-
-  // If ingredients has changed
-  if (ingredientsDifferent && scrapedProduct.ingredients.length > 1) {
-    // Update the ingredient list of the old db product with the new scraped product ingredient list
-    dbProduct.ingredients = scrapedProduct.ingredients;
-
-    // Update everything but lastUpdated
-    scrapedProduct.currentPrice = scrapedProduct.currentPrice || 0;
-    scrapedProduct.priceHistory = scrapedProduct.priceHistory || [];
-    scrapedProduct.lastUpdated = dbProduct.lastUpdated;
-
-    // Return completed Product ready for uploading
-    logIngredientChange(dbProduct, scrapedProduct.ingredients);
-    return {
-      upsertType: UpsertResponse.PriceChanged,
-      product: scrapedProduct,
-    };
-  }
-
-  // If any db categories are not included within the list of valid ones, update to scraped ones
-  else if (
-    !dbProduct.category.every((category) => {
-      const isValid = validCategories.includes(category);
-      return isValid;
-    }) ||
-    dbProduct.category === null
-  ) {
-    console.log(
-      `  Categories Changed: ${scrapedProduct.name
-        .padEnd(40)
-        .substring(0, 40)}` +
-      ` - ${dbProduct.category.join(" ")} > ${scrapedProduct.category.join(
-        " "
-      )}`
-    );
-
-    // Update everything but priceHistory and lastUpdated
-    scrapedProduct.currentPrice = scrapedProduct.currentPrice || 0;
-    scrapedProduct.priceHistory = scrapedProduct.priceHistory || [];
-    scrapedProduct.lastUpdated = dbProduct.lastUpdated;
-
-    // Return completed Product ready for uploading
-    return {
-      upsertType: UpsertResponse.InfoChanged,
-      product: scrapedProduct,
-    };
-  }
-
-  // Update other info
-  else if (
-    dbProduct.sourceSite !== scrapedProduct.sourceSite ||
-    dbProduct.category.join(" ") !== scrapedProduct.category.join(" ") ||
-    dbProduct.size !== scrapedProduct.size ||
-    dbProduct.unitPrice !== scrapedProduct.unitPrice ||
-    dbProduct.unitName !== scrapedProduct.unitName ||
-    dbProduct.originalUnitQuantity !== scrapedProduct.originalUnitQuantity
-  ) {
-    // Update everything but priceHistory and lastUpdated
-    scrapedProduct.lastUpdated = dbProduct.lastUpdated;
-
-    // Return completed Product ready for uploading
-    return {
-      upsertType: UpsertResponse.InfoChanged,
-      product: scrapedProduct,
-    };
-  } else {
-    // Nothing has changed, only update lastChecked
-    dbProduct.lastChecked = scrapedProduct.lastChecked;
-    return {
-      upsertType: UpsertResponse.AlreadyUpToDate,
-      product: dbProduct,
-    };
-  }
-}
-
-// logIngredientChange()
-// ----------------
-// Log a per product ingredient change message,
-//  coloured green for fewer ingredients, red for more ingredients
-
-export function logIngredientChange(product: Product, newIngredients: string[]) {
-  const ingredientsIncreased = newIngredients.length > product.ingredients.length;
-  log(
-    ingredientsIncreased ? colour.red : colour.green,
-    "  Ingredients " +
-    (ingredientsIncreased ? "Increased: " : "Decreased: ") +
-    product.name.slice(0, 47).padEnd(47) +
-    " | " +
-    product.ingredients.join(", ").slice(0, 50).padEnd(50) +
-    " > " +
-    newIngredients.join(", ").slice(0, 50)
-  );
-}
-
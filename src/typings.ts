@@ -7,26 +7,263 @@ export interface Product {
   lastChecked: Date;
   priceHistory: DatedPrice[];
   ingredients: string[];
+  ingredientTree?: IngredientNode[];
+  ingredientsLastChecked?: Date;
+  nutrition?: NutritionInfo;
+  allergens?: Allergen[];
+  allergenDeclarations?: string[];
+  dietaryTags?: DietaryTag[];
   sourceSite: string;
   category: string[];
   unitPrice?: number;
   unitName?: string;
   originalUnitQuantity?: number;
+  unitPriceConfidence?: UnitPriceConfidence;
+  unitPriceReason?: string;
+  displayUnitPrice?: number;
+  displayUnitName?: DisplayUnit;
+  siteUnitPrice?: number;
+  siteUnitName?: string;
+  regularPrice?: number;
+  promoPrice?: number;
+  promoType?: PromoType;
+  multibuy?: MultibuyTerms;
+  availability?: Availability;
+  availabilityHistory?: DatedAvailability[];
+  storePrices?: { [storeName: string]: StorePrice };
+  lastCheckedRunId?: string;
+}
+
+// How reliably a unit price was derived from the product's name and size
+export type UnitPriceConfidence = "high" | "medium" | "low";
+
+// Units which unit prices are shown in on shelf tickets, which vary by category
+export type DisplayUnit = "kg" | "100g" | "L" | "100ml" | "ea";
+
+export interface StorePrice {
+  currentPrice: number;
+  lastUpdated: Date;
+  lastChecked: Date;
+  priceHistory: DatedPrice[];
 }
 
 export interface DatedPrice {
   date: Date;
   price: number;
+  isPromo?: boolean;
+}
+
+export type Availability = "in-stock" | "out-of-stock" | "unavailable";
+
+export interface DatedAvailability {
+  date: Date;
+  availability: Availability;
+}
+
+export type PromoType = "special" | "club" | "multibuy";
+
+export interface MultibuyTerms {
+  quantity: number;
+  price: number;
+}
+
+export interface PromoInfo {
+  regularPrice: number;
+  promoPrice?: number;
+  promoType?: PromoType;
+  multibuy?: MultibuyTerms;
+}
+
+export interface DatedIngredients {
+  ingredients: string[];
+  nutrition?: NutritionInfo;
+  allergenDeclarations?: string[];
+  checkedAt: Date;
+}
+
+export interface IngredientNode {
+  name: string;
+  percentage?: number;
+  additiveCodes?: string[];
+  subIngredients?: IngredientNode[];
+}
+
+export type Allergen =
+  | "gluten"
+  | "milk"
+  | "egg"
+  | "peanut"
+  | "tree-nuts"
+  | "soy"
+  | "sesame"
+  | "fish"
+  | "shellfish";
+
+export type DietaryTag = "vegan" | "vegetarian" | "gluten-free" | "dairy-free";
+
+export interface NutritionInfo {
+  servingSize?: string;
+  servingsPerPack?: number;
+  per100Unit: "g" | "ml";
+  per100?: NutritionValues;
+  perServing?: NutritionValues;
+}
+
+export interface NutritionValues {
+  energyKj?: number;
+  protein?: number;
+  fat?: number;
+  saturatedFat?: number;
+  carbohydrate?: number;
+  sugars?: number;
+  sodium?: number;
 }
 
 export interface ProductResponse {
   upsertType: UpsertResponse;
   product: Product;
+  changes: ProductChange[];
 }
 
 export interface CategorisedUrl {
   url: string;
   categories: string[];
+  maxPages?: number;
+  storeName?: string;
+}
+
+export interface ScrapeStats {
+  scraped: number;
+  newProducts: number;
+  priceChanged: number;
+  infoUpdated: number;
+  alreadyUpToDate: number;
+  failed: number;
+  outOfStock: number;
+  unscrapable: number;
+}
+
+export interface UrlSummary {
+  url: string;
+  categories: string[];
+  storeName?: string;
+  pagesScraped: number;
+  failedPages: number;
+  durationSeconds: number;
+  stats: ScrapeStats;
+}
+
+export interface RunSummary {
+  runId: string;
+  startTime: string;
+  endTime: string;
+  durationSeconds: number;
+  urlCount: number;
+  completedUrlCount: number;
+  failedPageCount: number;
+  totals: ScrapeStats;
+  urls: UrlSummary[];
+  storeSelections: StoreSelection[];
+}
+
+export interface StoreSelection {
+  requestedName: string;
+  resolvedName?: string;
+  matched: boolean;
+  selectedAt: string;
+}
+
+export interface ScrapeRun {
+  id: string;
+  status: ScrapeRunStatus;
+  startTime: string;
+  endTime: string;
+  durationSeconds: number;
+  storeLocation: string;
+  arguments: string[];
+  urlCount: number;
+  completedUrlCount: number;
+  totals: ScrapeStats;
+  urls: UrlSummary[];
+  failedUrls: CategorisedUrl[];
+  storeSelections: StoreSelection[];
+}
+
+export type ScrapeRunStatus = "running" | "completed" | "interrupted" | "aborted";
+
+export interface RunCheckpoint {
+  runId: string;
+  startTime: number;
+  categorisedUrls: CategorisedUrl[];
+  completedUrlCount: number;
+  stats: ScrapeStats;
+  urlSummaries: UrlSummary[];
+  failedUrls: CategorisedUrl[];
+  storeSelections: StoreSelection[];
+}
+
+export interface WatchlistEntry {
+  id?: string;
+  namePattern?: string;
+  direction?: PriceDirection;
+  minChange?: number;
+  minChangePercent?: number;
+  targetUnitPrice?: number;
+}
+
+export type PriceDirection = "drop" | "rise" | "any";
+
+export interface PriceAlert {
+  productId: string;
+  name: string;
+  previousPrice: number;
+  newPrice: number;
+  change: number;
+  changePercent: number;
+  unitPrice?: number;
+  unitName?: string;
+  watch: string;
+  reasons: string[];
+  triggeredAt: string;
+}
+
+export interface ProductOverride {
+  id: string;
+  name?: string;
+  size?: string;
+  unit?: string;
+  quantity?: number;
+  categories?: string[];
+  exclude?: boolean;
+}
+
+export interface CategoryRule {
+  name: string;
+  category: string;
+  priority?: number;
+  nameKeywords?: string[];
+  namePattern?: string;
+  urlPattern?: string;
+  ingredientHints?: string[];
+}
+
+export interface CategoryRuleMatch {
+  rule: CategoryRule;
+  reasons: string[];
+}
+
+export interface UnitPriceMismatch {
+  productId: string;
+  name: string;
+  size?: string;
+  currentPrice: number;
+  unitPrice: number;
+  unitName: string;
+  unitPriceReason?: string;
+  siteUnitPrice: number;
+  siteUnitName: string;
+  convertedSiteUnitPrice: number;
+  differencePercent: number;
 }
 
 export const enum UpsertResponse {
@@ -36,3 +273,23 @@ export const enum UpsertResponse {
   AlreadyUpToDate,
   Failed,
 }
+
+export const enum ProductChange {
+  Price,
+  Ingredients,
+  Category,
+  Info,
+  Availability,
+  StorePrice,
+}
+
+export interface ProductStore {
+  name: string;
+  establish(): Promise<void>;
+  upsertProduct(scrapedProduct: Product, storeName?: string, dbProduct?: Product): Promise<UpsertResponse>;
+  readProduct(id: string): Promise<Product | undefined>;
+  readProducts(ids: string[]): Promise<Product[]>;
+  uploadImage(imgUrl: string, product: Product): Promise<boolean>;
+  upsertRun(run: ScrapeRun): Promise<boolean>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,417 @@
+// Used by index.ts for deriving the unit price of each product from its name and size,
+//  such as $/kg, $/L, or per item for products sold by count
+
+import { DisplayUnit, Product, UnitPriceConfidence } from "./typings";
+
+export interface UnitQuantity {
+  // Quantity in the unit prices are compared by, such as 0.25 for a 250ml bottle priced per L
+  quantity: number;
+  unitName: string;
+  // Quantity before normalising, such as 250 for a 250ml bottle
+  originalQuantity: number;
+  confidence: UnitPriceConfidence;
+  reason: string;
+}
+
+// Conversions from each measured unit into kg or L
+const measureUnits: { [unit: string]: { unitName: string; multiplier: number } } = {
+  mg: { unitName: "kg", multiplier: 0.000001 },
+  g: { unitName: "kg", multiplier: 0.001 },
+  kg: { unitName: "kg", multiplier: 1 },
+  ml: { unitName: "L", multiplier: 0.001 },
+  cl: { unitName: "L", multiplier: 0.01 },
+  dl: { unitName: "L", multiplier: 0.1 },
+  l: { unitName: "L", multiplier: 1 },
+};
+
+const measurePattern = /(\d+(?:\.\d+)?)\s?(mg|kg|g|ml|cl|dl|l)\b/g;
+const multipackPattern = /(\d+)\s?x\s?(\d+(?:\.\d+)?)\s?(mg|kg|g|ml|cl|dl|l)\b/;
+const packCountPattern = /(\d+)\s?(?:pack|pk|pce|pcs|pieces|count|ct)\b/;
+const perItemPattern = /(\d+(?:\.\d+)?)\s?(mg|kg|g|ml|cl|dl|l) (?:each|ea|per item)\b/;
+
+// Containers which are always sold as separate measured items, such as '330ml cans 30pack'
+const containerPattern = /\b(cans|bottles|pouches|tins|sachets|cups|tubs|pottles)\b/;
+
+// Unit prices outside this range are treated as parsing mistakes
+const maxUnitQuantity = 9999;
+
+// Comparison unit shown on shelf tickets for each of the validCategories,
+//  such as per 100g for spices and lollies, while staples are compared per kg or L.
+// Products in a per 100g category which are sold by volume are shown per 100ml, and vice versa
+export const categoryDisplayUnits: { [category: string]: DisplayUnit } = {
+  // freshCategory
+  "eggs": "ea",
+  "fruit": "kg",
+  "fresh-vegetables": "kg",
+  "salads-coleslaw": "100g",
+  "bread": "100g",
+  "bread-rolls": "ea",
+  "specialty-bread": "100g",
+  "bakery-cakes": "100g",
+  "bakery-desserts": "100g",
+  // chilledCategory
+  "milk": "L",
+  "long-life-milk": "L",
+  "sour-cream": "100g",
+  "cream": "100ml",
+  "yoghurt": "100g",
+  "butter": "100g",
+  "cheese": "kg",
+  "cheese-slices": "100g",
+  "salami": "100g",
+  "other-deli-foods": "100g",
+  // meatCategory
+  "beef-lamb": "kg",
+  "chicken": "kg",
+  "ham": "kg",
+  "bacon": "kg",
+  "pork": "kg",
+  "patties-meatballs": "kg",
+  "sausages": "kg",
+  "deli-meats": "100g",
+  "meat-alternatives": "100g",
+  "seafood": "kg",
+  "salmon": "kg",
+  // frozenCategory
+  "ice-cream": "L",
+  "ice-blocks": "ea",
+  "pastries-cheesecake": "100g",
+  "frozen-chips": "kg",
+  "frozen-vegetables": "kg",
+  "frozen-fruit": "kg",
+  "frozen-seafood": "kg",
+  "pies-sausage-rolls": "100g",
+  "pizza": "100g",
+  "other-savouries": "100g",
+  // pantryCategory
+  "rice": "kg",
+  "noodles": "100g",
+  "pasta": "kg",
+  "beans-spaghetti": "100g",
+  "canned-fish": "100g",
+  "canned-meat": "100g",
+  "soup": "100g",
+  "cereal": "100g",
+  "spreads": "100g",
+  "baking": "kg",
+  "sauces": "100ml",
+  "oils-vinegars": "L",
+  "world-foods": "100g",
+  // snacksCategory
+  "chocolate": "100g",
+  "boxed-chocolate": "100g",
+  "chips": "100g",
+  "crackers": "100g",
+  "biscuits": "100g",
+  "muesli-bars": "100g",
+  "nuts-bulk-mix": "100g",
+  "sweets-lollies": "100g",
+  "other-snacks": "100g",
+  // drinksCategory
+  "black-tea": "ea",
+  "green-tea": "ea",
+  "herbal-tea": "ea",
+  "drinking-chocolate": "100g",
+  "coffee": "100g",
+  "soft-drinks": "L",
+  "energy-drinks": "L",
+  "juice": "L",
+  // petsCategory
+  "cat-food": "kg",
+  "cat-treats": "100g",
+  "dog-food": "kg",
+  "dog-treats": "100g",
+};
+
+// Multipliers from a stored unit price into each display unit it can be shown in
+const displayUnitConversions: { [unitName: string]: { [displayUnit in DisplayUnit]?: number } } = {
+  kg: { "kg": 1, "100g": 0.1 },
+  L: { "L": 1, "100ml": 0.1 },
+  dozen: { ea: 1 / 12 },
+  "tea bag": { ea: 1 },
+  capsule: { ea: 1 },
+  ea: { ea: 1 },
+};
+
+// The same comparison unit for the other of weight or volume
+const equivalentDisplayUnits: { [displayUnit in DisplayUnit]: DisplayUnit } = {
+  "kg": "L",
+  "L": "kg",
+  "100g": "100ml",
+  "100ml": "100g",
+  "ea": "ea",
+};
+
+// addUnitPriceToProduct()
+// -----------------------
+// Derives unit quantity, unit name, and price per unit of a product,
+//  along with how confident the derivation is and why.
+// A unit and quantity from the product overrides file is used instead of the size, if given.
+// Returns an updated product
+
+export function addUnitPriceToProduct(
+  product: Product,
+  unitOverride?: { unit: string; quantity: number }
+): Product {
+  const unitQuantity =
+    unitOverride !== undefined
+      ? parseOverriddenQuantity(product.name, unitOverride)
+      : parseUnitQuantity(product.name, product.size);
+  if (unitQuantity === undefined) return product;
+  if (!(unitQuantity.quantity > 0 && unitQuantity.quantity < maxUnitQuantity)) return product;
+
+  // Set per unit price, rounded to 2 decimal points
+  product.unitPrice = Math.round((product.currentPrice / unitQuantity.quantity) * 100) / 100;
+  product.unitName = unitQuantity.unitName;
+  product.originalUnitQuantity = unitQuantity.originalQuantity;
+  product.unitPriceConfidence = unitQuantity.confidence;
+  product.unitPriceReason = unitQuantity.reason;
+
+  // Also show the unit price in the category's comparison unit, such as per 100g
+  const displayUnit = getDisplayUnit(product.category, unitQuantity.unitName);
+  if (displayUnit !== undefined) {
+    const multiplier = displayUnitConversions[unitQuantity.unitName][displayUnit]!;
+    product.displayUnitPrice =
+      Math.round((product.currentPrice / unitQuantity.quantity) * multiplier * 100) / 100;
+    product.displayUnitName = displayUnit;
+  }
+  return product;
+}
+
+// getDisplayUnit()
+// ----------------
+// Returns the comparison unit for a product's first category with a display unit,
+//  or undefined if the product's unit price can't be shown in that unit, such as per 100 sheets
+
+export function getDisplayUnit(categories: string[], unitName: string): DisplayUnit | undefined {
+  const conversions = displayUnitConversions[unitName];
+  if (conversions === undefined) return undefined;
+
+  const category = categories.find((category) => categoryDisplayUnits[category] !== undefined);
+  const preferredUnit = category !== undefined ? categoryDisplayUnits[category] : undefined;
+  if (preferredUnit !== undefined && conversions[preferredUnit] !== undefined) return preferredUnit;
+  if (preferredUnit !== undefined && conversions[equivalentDisplayUnits[preferredUnit]] !== undefined) {
+    return equivalentDisplayUnits[preferredUnit];
+  }
+
+  // Otherwise use the stored unit itself, where it is also a display unit
+  return conversions[unitName as DisplayUnit] !== undefined ? (unitName as DisplayUnit) : undefined;
+}
+
+// parseUnitQuantity()
+// -------------------
+// Derives the quantity a product is compared by, preferring its size over its name.
+// Products with a weight or volume are compared per kg or L, otherwise products sold by count
+//  are compared per item, per dozen eggs, per tea bag, per capsule or per 100 sheets.
+// Returns undefined if no quantity can be found.
+
+export function parseUnitQuantity(name: string, size?: string): UnitQuantity | undefined {
+  const sizeText = normaliseUnitText(size || "");
+  const nameText = normaliseUnitText(name);
+
+  // Products sold by weight or individually
+  if (sizeText === "kg" || sizeText.includes("per kg")) {
+    return { quantity: 1, unitName: "kg", originalQuantity: 1, confidence: "high", reason: "sold per kg" };
+  }
+  if (/^(ea|each)$/.test(sizeText)) {
+    return { quantity: 1, unitName: "ea", originalQuantity: 1, confidence: "high", reason: "sold each" };
+  }
+
+  // Eggs, tea bags and capsules are compared by count, even when a weight is also given
+  const parseQuantity = (text: string) =>
+    isEggs(nameText) || isTeaBags(nameText, text) || isCapsules(nameText, text)
+      ? parseCountQuantity(text, nameText) ?? parseMeasuredQuantity(text)
+      : parseMeasuredQuantity(text) ?? parseCountQuantity(text, nameText);
+
+  const fromSize = parseQuantity(sizeText);
+  if (fromSize !== undefined) return fromSize;
+
+  // Fall back to a size within the product name, such as 'Milk Standard 2L'
+  const fromName = parseQuantity(nameText);
+  if (fromName === undefined) return undefined;
+  return {
+    ...fromName,
+    confidence: fromName.confidence === "high" ? "medium" : fromName.confidence,
+    reason: fromName.reason + " in product name",
+  };
+}
+
+// parseOverriddenQuantity()
+// -------------------------
+// Derives the quantity from an overridden unit and quantity, such as 1.2 kg or 6 ea
+
+function parseOverriddenQuantity(
+  name: string,
+  unitOverride: { unit: string; quantity: number }
+): UnitQuantity | undefined {
+  const unitQuantity = parseUnitQuantity(name, `${unitOverride.quantity}${unitOverride.unit}`);
+  if (unitQuantity === undefined) return undefined;
+  return {
+    ...unitQuantity,
+    confidence: "high",
+    reason: `overridden to ${unitOverride.quantity}${unitOverride.unit}`,
+  };
+}
+
+// parseMeasuredQuantity()
+// -----------------------
+// Finds a weight or volume, such as '250ml', '6 x 1.5l', '330ml cans 30pack' or '100g 6pack'.
+// A weight alongside a pack count is taken as the total of the pack, unless it is labelled as each item's
+
+function parseMeasuredQuantity(text: string): UnitQuantity | undefined {
+  // Multipacks with each item's size, such as '6 x 1.5l'
+  const multipackMatch = text.match(multipackPattern);
+  if (multipackMatch) {
+    const count = Number(multipackMatch[1]);
+    const itemSize = Number(multipackMatch[2]);
+    return measuredQuantity(
+      count * itemSize, multipackMatch[3], "high", `multipack of ${count} x ${itemSize}${multipackMatch[3]}`
+    );
+  }
+
+  const measures = Array.from(text.matchAll(measurePattern)).map((match) => ({
+    amount: Number(match[1]),
+    unit: match[2],
+  }));
+  if (measures.length === 0) return undefined;
+
+  // Multiple sizes, such as '4 x 12g packs 48g', where the largest is taken as the total
+  const unitName = measureUnits[measures[0].unit].unitName;
+  const sameDimension = measures.filter((measure) => measureUnits[measure.unit].unitName === unitName);
+  if (sameDimension.length > 1) {
+    const largest = sameDimension.reduce((largest, measure) =>
+      measure.amount * measureUnits[measure.unit].multiplier > largest.amount * measureUnits[largest.unit].multiplier
+        ? measure
+        : largest
+    );
+    return measuredQuantity(
+      largest.amount, largest.unit, "medium", `largest of ${sameDimension.length} sizes taken as the total`
+    );
+  }
+
+  const { amount, unit } = measures[0];
+  const packCountMatch = text.match(packCountPattern);
+  if (!packCountMatch) return measuredQuantity(amount, unit, "high", `size ${amount}${unit}`);
+
+  // Pack sizes alongside each item's size, such as '330ml cans 30pack' or '25g each 20pack'
+  const packCount = Number(packCountMatch[1]);
+  if (containerPattern.test(text)) {
+    return measuredQuantity(amount * packCount, unit, "medium", `${packCount} containers of ${amount}${unit}`);
+  }
+  if (perItemPattern.test(text)) {
+    return measuredQuantity(amount * packCount, unit, "medium", `${packCount} items of ${amount}${unit} each`);
+  }
+
+  // Other packs, such as '150g 6pack', don't say whether the weight is the total or each item's
+  return measuredQuantity(
+    amount, unit, "low", `${amount}${unit} assumed to be the total weight of a ${packCount} pack`
+  );
+}
+
+// parseCountQuantity()
+// --------------------
+// Finds a count of items, such as '12pack' eggs, '100pk' tea bags, '200 sheets', or '4 rolls'
+
+function parseCountQuantity(text: string, nameText: string): UnitQuantity | undefined {
+  // Sheets are compared per 100 sheets, such as tissues or toilet paper with '180 sheets 12pack'
+  const sheetsMatch = text.match(/(\d+)\s?(?:sheets?|shts?)\b/);
+  if (sheetsMatch) {
+    const sheets = Number(sheetsMatch[1]);
+    const packCountMatch = text.replace(sheetsMatch[0], "").match(/(\d+)\s?(?:pack|pk|rolls?)\b/);
+    const packCount = packCountMatch ? Number(packCountMatch[1]) : 1;
+    return {
+      quantity: (sheets * packCount) / 100,
+      unitName: "100 sheets",
+      originalQuantity: sheets * packCount,
+      confidence: packCountMatch ? "medium" : "high",
+      reason: packCountMatch ? `${packCount} packs of ${sheets} sheets` : `${sheets} sheets`,
+    };
+  }
+
+  let count: number | undefined;
+  if (/\bhalf dozen\b/.test(text)) count = 6;
+  else if (/\bdozen\b/.test(text)) count = 12 * Number(text.match(/(\d+)\s?dozen\b/)?.[1] || 1);
+  else {
+    const countMatch = text.match(
+      /(\d+)\s?(?:pack|pk|pce|pcs|pieces|count|ct|ea|each|rolls?|bags?|capsules?|pods?|tablets|eggs?)\b/
+    );
+    if (countMatch) count = Number(countMatch[1]);
+  }
+  if (count === undefined || count <= 0) return undefined;
+
+  if (isEggs(nameText)) {
+    return {
+      quantity: count / 12, unitName: "dozen", originalQuantity: count, confidence: "high", reason: `${count} eggs`,
+    };
+  }
+  if (isTeaBags(nameText, text)) {
+    return {
+      quantity: count, unitName: "tea bag", originalQuantity: count, confidence: "high", reason: `${count} tea bags`,
+    };
+  }
+  if (isCapsules(nameText, text)) {
+    return {
+      quantity: count, unitName: "capsule", originalQuantity: count, confidence: "high", reason: `${count} capsules`,
+    };
+  }
+  return { quantity: count, unitName: "ea", originalQuantity: count, confidence: "medium", reason: `${count} items` };
+}
+
+// isEggs()
+// --------
+
+function isEggs(nameText: string): boolean {
+  return /\beggs?\b/.test(nameText);
+}
+
+// isTeaBags()
+// -----------
+
+function isTeaBags(nameText: string, text: string): boolean {
+  return /\btea\b/.test(nameText) && /\bbags?\b/.test(nameText + " " + text);
+}
+
+// isCapsules()
+// ------------
+// Such as coffee capsules or pods
+
+function isCapsules(nameText: string, text: string): boolean {
+  return /\b(capsules?|pods?)\b/.test(nameText + " " + text);
+}
+
+// measuredQuantity()
+// ------------------
+// Converts a weight or volume into kg or L
+
+function measuredQuantity(
+  amount: number,
+  unit: string,
+  confidence: UnitPriceConfidence,
+  reason: string
+): UnitQuantity {
+  const { unitName, multiplier } = measureUnits[unit];
+  return {
+    // Rounded to avoid floating point errors, such as 0.1 x 3
+    quantity: Math.round(amount * multiplier * 1e9) / 1e9,
+    unitName,
+    originalQuantity: Math.round(amount * 1e9) / 1e9,
+    confidence,
+    reason,
+  };
+}
+
+// normaliseUnitText()
+// -------------------
+// Lowercases text and shortens unit words, such as '1.5 Litres' into '1.5 l'
+
+function normaliseUnitText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/×/g, "x")
+    .replace(/\b(millilitres?|milliliters?)\b/g, "ml")
+    .replace(/\b(litres?|liters?|ltrs?|lt)\b/g, "l")
+    .replace(/\b(kilograms?|kgs)\b/g, "kg")
+    .replace(/\b(grams?|gms?|gr)\b/g, "g")
+    .replace(/\s+/g, " ")
+    .trim();
+}
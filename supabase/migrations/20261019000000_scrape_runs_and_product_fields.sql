@@ -0,0 +1,41 @@
+-- Adds the product fields stored by the scraper since the original products table,
+--  and the scrape_runs table which products reference with lastCheckedRunId.
+-- Columns keep the scraper's camelCase field names, as products are upserted as they are scraped.
+
+alter table products
+  add column if not exists "ingredientTree" jsonb,
+  add column if not exists "ingredientsLastChecked" timestamptz,
+  add column if not exists "nutrition" jsonb,
+  add column if not exists "allergens" jsonb,
+  add column if not exists "allergenDeclarations" jsonb,
+  add column if not exists "dietaryTags" jsonb,
+  add column if not exists "unitPriceConfidence" text,
+  add column if not exists "unitPriceReason" text,
+  add column if not exists "displayUnitPrice" numeric,
+  add column if not exists "displayUnitName" text,
+  add column if not exists "siteUnitPrice" numeric,
+  add column if not exists "siteUnitName" text,
+  add column if not exists "regularPrice" numeric,
+  add column if not exists "promoPrice" numeric,
+  add column if not exists "promoType" text,
+  add column if not exists "multibuy" jsonb,
+  add column if not exists "availability" text,
+  add column if not exists "availabilityHistory" jsonb,
+  add column if not exists "storePrices" jsonb,
+  add column if not exists "lastCheckedRunId" text;
+
+create table if not exists scrape_runs (
+  "id" text primary key,
+  "status" text not null,
+  "startTime" timestamptz not null,
+  "endTime" timestamptz not null,
+  "durationSeconds" integer not null,
+  "storeLocation" text not null default '',
+  "arguments" jsonb not null default '[]',
+  "urlCount" integer not null,
+  "completedUrlCount" integer not null,
+  "totals" jsonb not null default '{}',
+  "urls" jsonb not null default '[]',
+  "failedUrls" jsonb not null default '[]',
+  "storeSelections" jsonb not null default '[]'
+);
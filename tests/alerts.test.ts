@@ -0,0 +1,89 @@
+import 'jest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import {
+  checkPriceAlert, establishAlerts, evaluatePriceAlerts, getCollectedAlerts, parseWatchlist, postAlertsToWebhook,
+} from '../src/alerts';
+import { PriceAlert, Product } from '../src/typings';
+
+// Sample product at a given price and unit price
+function sampleProduct(price: number, unitPrice?: number): Product {
+  return {
+    id: '12345',
+    name: 'Smoked Salmon Slices',
+    currentPrice: price,
+    lastUpdated: new Date('2023-01-20'),
+    lastChecked: new Date('2023-01-20'),
+    priceHistory: [],
+    ingredients: [],
+    sourceSite: 'countdown.co.nz',
+    category: ['fish-seafood'],
+    unitPrice,
+    unitName: 'kg',
+  };
+}
+
+describe('price alerts', () => {
+  it('alerts on absolute and percentage changes in the watched direction', () => {
+    const entry = { id: '12345', direction: 'drop' as const, minChange: 1, minChangePercent: 20 };
+
+    expect(checkPriceAlert(entry, sampleProduct(10), sampleProduct(9.5))).toBeUndefined();
+    expect(checkPriceAlert(entry, sampleProduct(10), sampleProduct(12))).toBeUndefined();
+    expect(checkPriceAlert(entry, sampleProduct(10), sampleProduct(9))?.reasons).toEqual(['price changed by $1']);
+    expect(checkPriceAlert(entry, sampleProduct(10), sampleProduct(7.5))).toMatchObject({
+      change: -2.5,
+      changePercent: -25,
+      reasons: ['price changed by $2.5', 'price changed by 25%'],
+    });
+  });
+
+  it('alerts once when a target unit price is first reached', () => {
+    const entry = { namePattern: 'salmon', targetUnitPrice: 40 };
+
+    expect(checkPriceAlert(entry, sampleProduct(10, 50), sampleProduct(8, 40))?.watch).toBe('name salmon');
+    expect(checkPriceAlert(entry, sampleProduct(8, 40), sampleProduct(7, 35))).toBeUndefined();
+    expect(checkPriceAlert({ namePattern: 'tuna', targetUnitPrice: 40 }, sampleProduct(10, 50), sampleProduct(8, 40)))
+      .toBeUndefined();
+  });
+
+  it('rejects invalid watchlist entries', () => {
+    expect(parseWatchlist('[{ "id": "12345" }, { "namePattern": "milk", "minChange": 0.5 }]')).toHaveLength(2);
+    expect(() => parseWatchlist('[{ "direction": "drop" }]')).toThrow('needs an id or namePattern');
+    expect(() => parseWatchlist('[{ "id": "1", "direction": "down" }]')).toThrow('direction');
+    expect(() => parseWatchlist('[{ "namePattern": "(" }]')).toThrow('invalid namePattern');
+    expect(() => parseWatchlist('[{ "id": "1", "minChangePercent": "10" }]')).toThrow('positive number');
+  });
+
+  it('posts collected alerts to a webhook', async () => {
+    const watchlistPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'watchlist-')), 'watchlist.json');
+    fs.writeFileSync(watchlistPath, '[{ "id": "12345" }]');
+    expect(establishAlerts(watchlistPath)).toBe(1);
+    evaluatePriceAlerts(sampleProduct(10), sampleProduct(8));
+    expect(getCollectedAlerts()).toHaveLength(1);
+
+    // Local stand-in for the webhook, which records each posted body
+    const receivedBodies: { runId: string; alertCount: number; alerts: PriceAlert[] }[] = [];
+    const server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        receivedBodies.push(JSON.parse(body));
+        response.end('ok');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      expect(await postAlertsToWebhook('run-1', `http://127.0.0.1:${port}/alerts`)).toBe(true);
+    } finally {
+      server.close();
+    }
+    expect(receivedBodies).toHaveLength(1);
+    expect(receivedBodies[0]).toMatchObject({ runId: 'run-1', alertCount: 1 });
+    expect(receivedBodies[0].alerts[0]).toMatchObject({ productId: '12345', previousPrice: 10, newPrice: 8 });
+  });
+});
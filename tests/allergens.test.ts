@@ -0,0 +1,53 @@
+import 'jest';
+import { analyseIngredients, parseAllergenDeclarationsFromProductPage } from '../src/allergens';
+import { matchesExportFilter } from '../src/export';
+import { Product } from '../src/typings';
+
+describe('allergens', () => {
+  it('finds allergens within bracketed sub-ingredients', () => {
+    expect(
+      analyseIngredients(['Wheat Flour', 'Sugar', 'Chocolate (Sugar, Cocoa Butter, Milk Solids)', 'Salt'])
+    ).toEqual({ allergens: ['gluten', 'milk'], dietaryTags: ['vegetarian'] });
+  });
+
+  it('ignores plant based phrases, free-from claims and may contain statements', () => {
+    expect(
+      analyseIngredients(['Coconut Milk', 'Rice', 'Peanut Butter (Peanuts)', 'Gluten Free Soy Sauce (Soybeans)',
+        'May contain traces of sesame and tree nuts'])
+    ).toEqual({ allergens: ['peanut', 'soy'], dietaryTags: ['vegan', 'vegetarian', 'gluten-free', 'dairy-free'] });
+  });
+
+  it('keeps the plant of plant based milks and butters', () => {
+    expect(analyseIngredients(['Peanut Butter', 'Salt'])).toEqual({
+      allergens: ['peanut'], dietaryTags: ['vegan', 'vegetarian', 'gluten-free', 'dairy-free'],
+    });
+    expect(analyseIngredients(['Soy Milk']).allergens).toEqual(['soy']);
+    expect(analyseIngredients(['Oat Milk']).allergens).toEqual(['gluten']);
+    expect(analyseIngredients(['Almond Butter']).allergens).toEqual(['tree-nuts']);
+    expect(analyseIngredients(['Cream Of Tartar']).allergens).toEqual([]);
+  });
+
+  it('rules out vegetarian for meat, fish and shellfish', () => {
+    expect(analyseIngredients(['Pork', 'Salt']).dietaryTags).toEqual(['gluten-free', 'dairy-free']);
+    expect(analyseIngredients(['Rice', 'Prawns']).allergens).toEqual(['shellfish']);
+    expect(analyseIngredients(['Oats', 'Honey']).dietaryTags).toEqual(['vegetarian', 'dairy-free']);
+  });
+
+  it('flags bolded and contains allergen declarations', () => {
+    const html =
+      '<cdx-accordion><cdx-accordion-item></cdx-accordion-item><cdx-accordion-item><div><div><div>' +
+      'Flour, Emulsifier (322)<b>Egg</b>. Contains: Soy, Sesame.</div></div></div></cdx-accordion-item></cdx-accordion>';
+    const declarations = parseAllergenDeclarationsFromProductPage(html);
+    expect(declarations).toEqual(['Egg', 'Soy, Sesame']);
+    expect(analyseIngredients(['Flour', 'Emulsifier (322)'], declarations).allergens).toEqual(['egg', 'soy', 'sesame']);
+  });
+
+  it('filters exported products by allergens and dietary tags', () => {
+    const product = { allergens: ['gluten'], dietaryTags: ['vegan', 'vegetarian'] } as Product;
+    expect(matchesExportFilter(product, {})).toBe(true);
+    expect(matchesExportFilter(product, { excludeAllergens: ['milk'], dietaryTags: ['vegan'] })).toBe(true);
+    expect(matchesExportFilter(product, { excludeAllergens: ['gluten'] })).toBe(false);
+    expect(matchesExportFilter(product, { dietaryTags: ['gluten-free'] })).toBe(false);
+    expect(matchesExportFilter({} as Product, { dietaryTags: ['vegan'] })).toBe(false);
+  });
+});
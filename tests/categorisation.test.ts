@@ -0,0 +1,89 @@
+import 'jest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { establishCategoryRules, lintCategoryRules, matchCategoryRule, parseCategoryRules } from '../src/categorisation';
+import { Product } from '../src/typings';
+
+const teaUrl = 'https://www.woolworths.co.nz/shop/browse/drinks/tea-milk-drinks';
+
+function createProduct(name: string, ingredients: string[] = []): Product {
+  return { id: '12345', name, size: '', currentPrice: 5, category: ['black-tea'], ingredients } as unknown as Product;
+}
+
+describe('categorisation', () => {
+  beforeAll(() => {
+    establishCategoryRules('src/category-rules.json');
+  });
+
+  it('has no problems in the default rules file', () => {
+    const entries = JSON.parse(fs.readFileSync('src/category-rules.json', 'utf-8'));
+    expect(lintCategoryRules(entries)).toEqual([]);
+  });
+
+  it('assigns tea categories from name keywords within tea urls', () => {
+    const match = matchCategoryRule(createProduct('Pukka Peppermint & Licorice Tea Bags'), `${teaUrl}/black-breakfast-tea`);
+    expect(match?.rule.category).toBe('herbal-tea');
+    expect(match?.reasons).toEqual([
+      "name keyword 'peppermint'", "url pattern '/tea-milk-drinks/(black-breakfast-tea|green-tea|herbal-fruit-teas)\\b'",
+    ]);
+
+    expect(matchCategoryRule(createProduct('Twinings Earl Grey'), `${teaUrl}/herbal-fruit-teas`)?.rule.category)
+      .toBe('black-tea');
+    expect(matchCategoryRule(createProduct('Peppermint Lollies'), 'https://www.woolworths.co.nz/shop/browse/snacks'))
+      .toBeUndefined();
+  });
+
+  it('leaves products from other tea and milk drink listings', () => {
+    const product = createProduct('Chai Latte Drinking Chocolate With Peppermint');
+    expect(matchCategoryRule(product, `${teaUrl}/drinking-chocolate-malt`)).toBeUndefined();
+  });
+
+  it('matches whole keywords only', () => {
+    expect(matchCategoryRule(createProduct('Chaitanya Breakfast Blend'), `${teaUrl}/green-tea`)).toBeUndefined();
+  });
+
+  it('prefers higher priority rules', () => {
+    const match = matchCategoryRule(createProduct('Matcha Green Tea With Peppermint'), `${teaUrl}/herbal-fruit-teas`);
+    expect(match?.rule.name).toBe('green tea names');
+  });
+
+  it('uses ingredient hints when the name has no keywords', () => {
+    const product = createProduct('Dilmah Naturally Caffeine Free', ['Rooibos 90%', 'Natural Flavour']);
+    const match = matchCategoryRule(product, `${teaUrl}/black-breakfast-tea`);
+    expect(match?.rule.name).toBe('herbal tea ingredients');
+    expect(match?.reasons).toContain("ingredient hint 'rooibos'");
+    expect(matchCategoryRule(product, `${teaUrl}/herbal-fruit-teas`)).toBeUndefined();
+  });
+
+  it('finds unknown fields, categories, invalid patterns and rules without conditions', () => {
+    expect(lintCategoryRules([
+      { name: 'herbal', category: 'herbal-tea', nameKeywords: ['chamomile'] },
+      { name: 'herbal', category: 'herbal-teas', nameKeywords: [] },
+      { name: 'pattern', category: 'coffee', namePattern: '(decaf', keyword: 'coffee' },
+      { category: 'coffee', priority: 'high' },
+    ])).toEqual([
+      "rule 2 has the same name as another rule 'herbal'",
+      "rule 2 (herbal) has unknown category 'herbal-teas'",
+      'rule 2 (herbal) nameKeywords must be a list of non-empty text',
+      "rule 3 (pattern) has unknown field 'keyword'",
+      "rule 3 (pattern) has an invalid namePattern '(decaf'",
+      'rule 4 needs a name, which is shown when explaining categories',
+      'rule 4 (undefined) priority must be a number',
+      'rule 4 (undefined) needs at least one of: nameKeywords, namePattern, urlPattern, ingredientHints',
+    ]);
+    expect(() => parseCategoryRules('{}')).toThrow('rules must be an array');
+  });
+
+  it('loads yaml rules in order of priority', () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'rules-')), 'rules.yaml');
+    fs.writeFileSync(
+      filePath,
+      '- name: any coffee\n  category: coffee\n  namePattern: coffee\n' +
+      '- name: chocolate drinks\n  category: drinking-chocolate\n  priority: 5\n  nameKeywords: [hot chocolate, cocoa]\n'
+    );
+    expect(establishCategoryRules(filePath)).toBe(2);
+    expect(matchCategoryRule(createProduct('Coffee And Hot Chocolate Sachets'))?.rule.name).toBe('chocolate drinks');
+    expect(matchCategoryRule(createProduct('Instant Coffee'))?.rule.name).toBe('any coffee');
+  });
+});
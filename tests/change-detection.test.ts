@@ -0,0 +1,158 @@
+import 'jest';
+import { buildUpdatedProduct, detectProductChanges } from '../src/change-detection';
+import { Product, ProductChange, UpsertResponse } from '../src/typings';
+import { establishStoreLocations } from '../src/store-locations';
+
+// Sample product as previously stored in a database, with dates stored as strings
+function sampleDbProduct(): Product {
+  return JSON.parse(
+    JSON.stringify({
+      id: '12345',
+      name: 'Orange Juice',
+      size: '250ml',
+      currentPrice: 4,
+      lastUpdated: new Date('2023-01-20'),
+      lastChecked: new Date('2023-01-20'),
+      priceHistory: [{ date: new Date('2023-01-20'), price: 4 }],
+      ingredients: ['Orange Juice'],
+      sourceSite: 'countdown.co.nz',
+      category: ['juice'],
+    })
+  );
+}
+
+// Sample product freshly scraped on a later day
+function sampleScrapedProduct(overrides: Partial<Product> = {}): Product {
+  const today = new Date('2023-02-01');
+  return {
+    ...sampleDbProduct(),
+    lastUpdated: today,
+    lastChecked: today,
+    priceHistory: [{ date: today, price: overrides.currentPrice ?? 4 }],
+    ...overrides,
+  };
+}
+
+describe('change detection', () => {
+  it('detects no changes for an identical product', () => {
+    const response = buildUpdatedProduct(sampleScrapedProduct(), sampleDbProduct());
+    expect(response.changes).toEqual([]);
+    expect(response.upsertType).toBe(UpsertResponse.AlreadyUpToDate);
+  });
+
+  it('appends to price history when price changes on a new day', () => {
+    const response = buildUpdatedProduct(sampleScrapedProduct({ currentPrice: 5 }), sampleDbProduct());
+    expect(response.upsertType).toBe(UpsertResponse.PriceChanged);
+    expect(response.product.priceHistory.map((datedPrice) => datedPrice.price)).toEqual([4, 5]);
+  });
+
+  it('ignores price changes of 5 cents or less', () => {
+    const changes = detectProductChanges(sampleScrapedProduct({ currentPrice: 4.05 }), sampleDbProduct());
+    expect(changes).toEqual([]);
+  });
+
+  it('returns every change kind detected together', () => {
+    const response = buildUpdatedProduct(
+      sampleScrapedProduct({
+        currentPrice: 3,
+        ingredients: ['Orange Juice', 'Vitamin C'],
+        category: ['soft-drinks'],
+        size: '300ml',
+      }),
+      sampleDbProduct()
+    );
+    expect(response.changes).toEqual([
+      ProductChange.Price,
+      ProductChange.Ingredients,
+      ProductChange.Category,
+      ProductChange.Info,
+    ]);
+    expect(response.upsertType).toBe(UpsertResponse.PriceChanged);
+    expect(response.product.priceHistory).toHaveLength(2);
+    expect(response.product.ingredients).toEqual(['Orange Juice', 'Vitamin C']);
+  });
+
+  it('keeps price history and ingredients on info-only changes', () => {
+    const dbProduct = sampleDbProduct();
+    const response = buildUpdatedProduct(sampleScrapedProduct({ size: '300ml', ingredients: [] }), dbProduct);
+    expect(response.changes).toEqual([ProductChange.Info]);
+    expect(response.upsertType).toBe(UpsertResponse.InfoChanged);
+    expect(response.product.priceHistory).toEqual(dbProduct.priceHistory);
+    expect(response.product.lastUpdated).toBe(dbProduct.lastUpdated);
+    expect(response.product.ingredients).toEqual(['Orange Juice']);
+  });
+
+  it('appends to availability history when availability changes', () => {
+    const today = new Date('2023-02-01');
+    const dbProduct = {
+      ...sampleDbProduct(),
+      availability: 'in-stock' as const,
+      availabilityHistory: [{ date: new Date('2023-01-20'), availability: 'in-stock' as const }],
+    };
+    const response = buildUpdatedProduct(
+      sampleScrapedProduct({
+        currentPrice: 0,
+        priceHistory: [],
+        availability: 'out-of-stock',
+        availabilityHistory: [{ date: today, availability: 'out-of-stock' }],
+      }),
+      dbProduct
+    );
+    expect(response.changes).toEqual([ProductChange.Availability]);
+    expect(response.upsertType).toBe(UpsertResponse.InfoChanged);
+    expect(response.product.availabilityHistory?.map((dated) => dated.availability)).toEqual([
+      'in-stock',
+      'out-of-stock',
+    ]);
+
+    // Products scraped without a price keep their last known price
+    expect(response.product.currentPrice).toBe(4);
+    expect(response.product.priceHistory).toEqual(dbProduct.priceHistory);
+  });
+
+  it('keeps the main price when another store location has a different price', () => {
+    establishStoreLocations(['Mt Albert', 'Newmarket'], []);
+    const today = new Date('2023-02-01');
+    const dbProduct = {
+      ...sampleDbProduct(),
+      storePrices: {
+        'Mt Albert': {
+          currentPrice: 4,
+          lastUpdated: new Date('2023-01-20'),
+          lastChecked: new Date('2023-01-20'),
+          priceHistory: [],
+        },
+      },
+    };
+    const response = buildUpdatedProduct(
+      sampleScrapedProduct({
+        currentPrice: 5,
+        storePrices: { Newmarket: { currentPrice: 5, lastUpdated: today, lastChecked: today, priceHistory: [] } },
+      }),
+      dbProduct,
+      'Newmarket'
+    );
+    establishStoreLocations(undefined, []);
+
+    expect(response.changes).toEqual([ProductChange.StorePrice]);
+    expect(response.upsertType).toBe(UpsertResponse.PriceChanged);
+    expect(response.product.currentPrice).toBe(4);
+    expect(Object.keys(response.product.storePrices!)).toEqual(['Mt Albert', 'Newmarket']);
+    expect(response.product.storePrices!['Newmarket'].currentPrice).toBe(5);
+  });
+
+  it('keeps the main availability when another store location is out of stock', () => {
+    establishStoreLocations(['Mt Albert', 'Newmarket'], []);
+    const dbProduct = { ...sampleDbProduct(), availability: 'in-stock' as const };
+    const response = buildUpdatedProduct(
+      sampleScrapedProduct({ currentPrice: 0, priceHistory: [], availability: 'out-of-stock' }),
+      dbProduct,
+      'Newmarket'
+    );
+    establishStoreLocations(undefined, []);
+
+    expect(response.changes).toEqual([]);
+    expect(response.product.availability).toBe('in-stock');
+    expect(response.product.currentPrice).toBe(4);
+  });
+});
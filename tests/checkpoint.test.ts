@@ -0,0 +1,69 @@
+import 'jest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { clearCheckpoint, createCheckpoint, createRunId, loadCheckpoint, saveCheckpoint } from '../src/checkpoint';
+
+const checkpointDir = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoint-'));
+const checkpointPath = path.join(checkpointDir, 'data', 'checkpoint.json');
+const categorisedUrls = [
+  { url: 'https://www.woolworths.co.nz/shop/browse/pantry/rice', categories: ['rice'] },
+  { url: 'https://www.woolworths.co.nz/shop/browse/pantry/pasta', categories: ['pasta'], storeName: 'Newmarket' },
+];
+
+describe('checkpoint', () => {
+  afterEach(() => clearCheckpoint(checkpointPath));
+
+  it('creates run ids from the start time', () => {
+    expect(createRunId(Date.UTC(2024, 5, 1, 9, 30, 0))).toMatch(/^20240601-093000-[0-9a-f]{4}$/);
+  });
+
+  it('has nothing to resume when no checkpoint was saved', () => {
+    expect(loadCheckpoint(checkpointPath)).toBeUndefined();
+  });
+
+  it('saves and loads progress so a run can be resumed', () => {
+    const checkpoint = createCheckpoint(categorisedUrls, Date.UTC(2024, 5, 1));
+    expect(checkpoint.completedUrlCount).toBe(0);
+
+    checkpoint.completedUrlCount = 1;
+    checkpoint.stats.scraped = 48;
+    checkpoint.failedUrls.push(categorisedUrls[1]);
+    saveCheckpoint(checkpoint, checkpointPath);
+
+    const resumed = loadCheckpoint(checkpointPath)!;
+    expect(resumed.runId).toBe(checkpoint.runId);
+    expect(resumed.completedUrlCount).toBe(1);
+    expect(resumed.categorisedUrls).toEqual(categorisedUrls);
+    expect(resumed.stats.scraped).toBe(48);
+    expect(resumed.failedUrls).toEqual([categorisedUrls[1]]);
+  });
+
+  it('fills in values missing from older checkpoints', () => {
+    fs.mkdirSync(path.dirname(checkpointPath), { recursive: true });
+    fs.writeFileSync(checkpointPath, JSON.stringify({
+      runId: 'old-run', startTime: 0, categorisedUrls, completedUrlCount: 1, stats: { scraped: 10 },
+    }));
+
+    const resumed = loadCheckpoint(checkpointPath)!;
+    expect(resumed.stats.scraped).toBe(10);
+    expect(resumed.stats.failed).toBe(0);
+    expect(resumed.urlSummaries).toEqual([]);
+    expect(resumed.failedUrls).toEqual([]);
+    expect(resumed.storeSelections).toEqual([]);
+  });
+
+  it('throws for an unreadable checkpoint', () => {
+    fs.mkdirSync(path.dirname(checkpointPath), { recursive: true });
+    fs.writeFileSync(checkpointPath, '{ "runId": ');
+    expect(() => loadCheckpoint(checkpointPath)).toThrow('Unable to parse checkpoint file');
+  });
+
+  it('clears the checkpoint once a run has completed', () => {
+    saveCheckpoint(createCheckpoint(categorisedUrls, Date.now()), checkpointPath);
+    clearCheckpoint(checkpointPath);
+    expect(fs.existsSync(checkpointPath)).toBe(false);
+    expect(loadCheckpoint(checkpointPath)).toBeUndefined();
+    expect(() => clearCheckpoint(checkpointPath)).not.toThrow();
+  });
+});
@@ -0,0 +1,72 @@
+import 'jest';
+import * as cheerio from 'cheerio';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  checkSiteUnitPrice, convertSiteUnitPrice, establishUnitPriceCheck, getCollectedMismatches, parseSiteUnitPrice,
+  writeMismatchesFile,
+} from '../src/cup-price';
+import { Product } from '../src/typings';
+
+// Builds a listing card with a price and cup price
+function card(cupHtml: string) {
+  const $ = cheerio.load(
+    `<a class="product-entry"><h3 id="product-123456-title">jet planes</h3><div class="product-meta">` +
+    `<p><span class="size">180g</span></p><product-price><h3><em>3</em><span>00</span></h3></product-price>` +
+    `${cupHtml}</div></a>`
+  );
+  return $('a.product-entry');
+}
+
+// Sample product with a derived unit price and the site's unit price
+function sampleProduct(unitPrice: number, siteUnitPrice: number, siteUnitName: string): Product {
+  return {
+    id: '123456',
+    name: 'Jet Planes',
+    size: '180g',
+    currentPrice: 3,
+    unitPrice,
+    unitName: 'kg',
+    siteUnitPrice,
+    siteUnitName,
+  } as Product;
+}
+
+describe('cup price', () => {
+  it('parses the cup price from a listing card', () => {
+    expect(parseSiteUnitPrice(card('<span class="cupPrice">$1.67 / 100g</span>')))
+      .toEqual({ siteUnitPrice: 1.67, siteUnitName: '100g' });
+    expect(parseSiteUnitPrice(card('<p class="cup-price">$0.58 / 1ea</p>')))
+      .toEqual({ siteUnitPrice: 0.58, siteUnitName: '1ea' });
+    expect(parseSiteUnitPrice(card('<p class="unit-price">$2.10 per L</p>')))
+      .toEqual({ siteUnitPrice: 2.1, siteUnitName: '1l' });
+    expect(parseSiteUnitPrice(card(''))).toBeUndefined();
+
+    // Other text on the card is ignored when there is no cup price element
+    expect(parseSiteUnitPrice(card('<p>Save $1.00 / 2ea</p>'))).toBeUndefined();
+  });
+
+  it('converts cup prices into the stored unit', () => {
+    expect(convertSiteUnitPrice(1.67, '100g', 'kg')).toBeCloseTo(16.7);
+    expect(convertSiteUnitPrice(0.35, '100ml', 'L')).toBeCloseTo(3.5);
+    expect(convertSiteUnitPrice(0.58, '1ea', 'dozen')).toBeCloseTo(6.96);
+    expect(convertSiteUnitPrice(1.67, '100g', 'L')).toBeUndefined();
+    expect(convertSiteUnitPrice(0.58, '1ea', 'kg')).toBeUndefined();
+  });
+
+  it('collects and writes mismatches beyond the tolerance', () => {
+    establishUnitPriceCheck(5);
+    expect(checkSiteUnitPrice(sampleProduct(16.67, 1.67, '100g'))).toBeUndefined();
+    expect(checkSiteUnitPrice(sampleProduct(16.67, 3.34, '100g'))).toMatchObject({
+      convertedSiteUnitPrice: 33.4,
+      differencePercent: -50.1,
+    });
+    expect(getCollectedMismatches()).toHaveLength(1);
+
+    const reportsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mismatches-'));
+    const filePath = writeMismatchesFile('run-1', reportsDir);
+    expect(path.basename(filePath!)).toBe('unit-price-mismatches-run-1.json');
+    expect(JSON.parse(fs.readFileSync(filePath!, 'utf-8'))[0].productId).toBe('123456');
+  });
+});
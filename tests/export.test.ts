@@ -0,0 +1,34 @@
+import 'jest';
+import { formatProducts, productsToCsv } from '../src/export';
+import { Product } from '../src/typings';
+
+const product: Product = {
+  id: '12345',
+  name: 'Orange Juice, "Pulp Free"',
+  size: '250ml',
+  currentPrice: 4,
+  lastUpdated: new Date('2023-01-20T00:00:00.000Z'),
+  lastChecked: new Date('2023-01-20T00:00:00.000Z'),
+  priceHistory: [{ date: new Date('2023-01-20T00:00:00.000Z'), price: 4 }],
+  ingredients: ['Orange Juice', 'Vitamin C'],
+  sourceSite: 'countdown.co.nz',
+  category: ['juice'],
+  unitPrice: 16,
+  unitName: 'L',
+};
+
+describe('export', () => {
+  it('writes csv with escaped cells and joined arrays', () => {
+    const [header, row] = productsToCsv([product]).trim().split('\n');
+    expect(header.startsWith('id,name,size,currentPrice,unitPrice,unitName')).toBe(true);
+    expect(row).toContain('"Orange Juice, ""Pulp Free"""');
+    expect(row).toContain('Orange Juice; Vitamin C');
+    expect(row).toContain('"[{""date"":""2023-01-20T00:00:00.000Z"",""price"":4}]"');
+  });
+
+  it('writes one json object per line for ndjson', () => {
+    const lines = formatProducts([product, product], 'ndjson').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]).unitPrice).toBe(16);
+  });
+});
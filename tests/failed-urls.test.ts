@@ -0,0 +1,38 @@
+import 'jest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadFailedUrls, saveFailedUrls } from '../src/failed-urls';
+
+const failedUrlsPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'failed-urls-')), 'data', 'failed-urls.json');
+
+describe('failed urls', () => {
+  it('has no urls to retry when no run has failed', () => {
+    expect(loadFailedUrls(failedUrlsPath)).toEqual([]);
+  });
+
+  it('persists failed urls, replacing those of the previous run', () => {
+    saveFailedUrls(
+      [{ url: 'https://www.woolworths.co.nz/shop/browse/pantry/rice', categories: ['rice'] }],
+      failedUrlsPath
+    );
+    const failedUrls = [
+      { url: 'https://www.woolworths.co.nz/shop/browse/pantry/pasta?page=3', categories: ['pasta'], maxPages: 1 },
+      { url: 'https://www.woolworths.co.nz/shop/browse/pantry/soup', categories: ['soup'], storeName: 'Newmarket' },
+    ];
+    saveFailedUrls(failedUrls, failedUrlsPath);
+
+    // retry-failed scrapes only these urls, keeping the page and store each failed on
+    expect(loadFailedUrls(failedUrlsPath)).toEqual(failedUrls);
+  });
+
+  it('clears the failed urls after a run without failures', () => {
+    saveFailedUrls([], failedUrlsPath);
+    expect(loadFailedUrls(failedUrlsPath)).toEqual([]);
+  });
+
+  it('throws for an unreadable failed urls file', () => {
+    fs.writeFileSync(failedUrlsPath, '[{ "url": ');
+    expect(() => loadFailedUrls(failedUrlsPath)).toThrow('Unable to parse failed URLs file');
+  });
+});
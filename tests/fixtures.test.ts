@@ -0,0 +1,76 @@
+import 'jest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import { fixturePath, loadFixture, saveFixture } from '../src/fixtures';
+import { parsePageCount } from '../src/pagination';
+import { playwrightElementToProduct, productEntrySelector } from '../src/product-entries';
+import { Product } from '../src/typings';
+
+const listingUrl = 'https://www.woolworths.co.nz/shop/browse/pantry/rice?inStockProductsOnly=true&page=1&size=48';
+
+describe('fixtures', () => {
+  const originalFixturesDir = process.env.FIXTURES_DIR;
+  afterEach(() => {
+    if (originalFixturesDir === undefined) delete process.env.FIXTURES_DIR;
+    else process.env.FIXTURES_DIR = originalFixturesDir;
+  });
+
+  it('builds a file path from the url and store location', () => {
+    expect(fixturePath('listings', listingUrl, undefined, 'fixtures')).toBe(
+      path.join('fixtures', 'listings', 'shop-browse-pantry-rice-inStockProductsOnly-true-page-1-size-48.html')
+    );
+    expect(fixturePath('listings', listingUrl, 'Auckland Central', 'fixtures')).toBe(
+      path.join('fixtures', 'listings', 'auckland-central', 'shop-browse-pantry-rice-inStockProductsOnly-true-page-1-size-48.html')
+    );
+  });
+
+  it('saves and loads html for each store location without overwriting', () => {
+    process.env.FIXTURES_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+    saveFixture('listings', listingUrl, '<p>Auckland</p>', 'Auckland Central');
+    saveFixture('listings', listingUrl, '<p>Wellington</p>', 'Wellington');
+    saveFixture('products', listingUrl, '<p>Product</p>');
+
+    expect(loadFixture('listings', listingUrl, 'Auckland Central')).toBe('<p>Auckland</p>');
+    expect(loadFixture('listings', listingUrl, 'Wellington')).toBe('<p>Wellington</p>');
+    expect(loadFixture('products', listingUrl)).toBe('<p>Product</p>');
+    expect(loadFixture('listings', listingUrl)).toBeUndefined();
+  });
+
+  it('replays a recorded listing page into products', () => {
+    process.env.FIXTURES_DIR = 'tests/fixtures';
+    const html = loadFixture('listings', listingUrl)!;
+    expect(parsePageCount(html, 48)).toBe(2);
+
+    const $ = cheerio.load(html);
+    const products = $(productEntrySelector)
+      .toArray()
+      .map((element) => playwrightElementToProduct(element, ['rice'], [], listingUrl))
+      .filter((product): product is Product => product !== undefined);
+
+    // The out of stock product without a price is skipped
+    expect(products).toHaveLength(2);
+    expect(products[0]).toMatchObject({
+      id: '123456',
+      name: 'Sunrice Jasmine Rice',
+      size: '1kg',
+      currentPrice: 4.5,
+      category: ['rice'],
+      unitPrice: 4.5,
+      unitName: 'kg',
+      siteUnitPrice: 0.45,
+      siteUnitName: '100g',
+    });
+    expect(products[1]).toMatchObject({
+      id: '234567',
+      name: 'Tilda Basmati Rice',
+      currentPrice: 5,
+      regularPrice: 6.5,
+      promoPrice: 5,
+      promoType: 'special',
+      unitPrice: 10,
+    });
+    expect(products[1].priceHistory[0]).toMatchObject({ price: 5, isPromo: true });
+  });
+});
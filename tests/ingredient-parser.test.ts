@@ -0,0 +1,45 @@
+import 'jest';
+import { buildIngredientTree, parseIngredient, splitIngredients } from '../src/ingredient-parser';
+
+describe('ingredient parser', () => {
+  it('splits on commas outside of nested brackets', () => {
+    expect(splitIngredients('Sugar, Chocolate (Cocoa Mass, Emulsifier (Soy Lecithin, 476)), Salt.'))
+      .toEqual(['Sugar', 'Chocolate (Cocoa Mass, Emulsifier (Soy Lecithin, 476))', 'Salt.']);
+    expect(splitIngredients('Rice [Jasmine, White], Water')).toEqual(['Rice [Jasmine, White]', 'Water']);
+    expect(splitIngredients('  ')).toEqual([]);
+  });
+
+  it('parses sub-ingredients with percentages outside the brackets', () => {
+    expect(parseIngredient('Chocolate (Sugar, Cocoa Butter) 30%')).toEqual({
+      name: 'Chocolate',
+      percentage: 30,
+      subIngredients: [{ name: 'Sugar' }, { name: 'Cocoa Butter' }],
+    });
+  });
+
+  it('parses percentages and additive codes within brackets', () => {
+    expect(parseIngredient('Tomatoes (45%)')).toEqual({ name: 'Tomatoes', percentage: 45 });
+    expect(parseIngredient('Acidity Regulators (E330, 331(iii))')).toEqual({
+      name: 'Acidity Regulators',
+      additiveCodes: ['330', '331(iii)'],
+    });
+    expect(parseIngredient('Emulsifier (Soy Lecithin (322))')).toEqual({
+      name: 'Emulsifier',
+      subIngredients: [{ name: 'Soy Lecithin', additiveCodes: ['322'] }],
+    });
+  });
+
+  it('parses additive codes outside brackets', () => {
+    expect(parseIngredient('Preservative: 202')).toEqual({ name: 'Preservative', additiveCodes: ['202'] });
+    expect(parseIngredient('Colour INS 150c')).toEqual({ name: 'Colour', additiveCodes: ['150c'] });
+    expect(parseIngredient('E471')).toEqual({ name: 'E471', additiveCodes: ['471'] });
+  });
+
+  it('builds a tree from the flat ingredients list', () => {
+    const tree = buildIngredientTree(['Milk Solids 12.5%', 'Vitamin B12', 'Wheat Flour (Thiamine, Folic Acid)']);
+    expect(tree.map((node) => node.name)).toEqual(['Milk Solids', 'Vitamin B12', 'Wheat Flour']);
+    expect(tree[0].percentage).toBe(12.5);
+    expect(tree[1].additiveCodes).toBeUndefined();
+    expect(tree[2].subIngredients).toHaveLength(2);
+  });
+});
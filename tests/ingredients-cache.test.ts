@@ -0,0 +1,80 @@
+import 'jest';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  cacheScrapedIngredients, establishIngredientsCache, getFreshIngredients, prefetchProducts, saveIngredientsCache,
+  takeReadProduct,
+} from '../src/ingredients-cache';
+import { Product, ProductStore } from '../src/typings';
+
+const cacheFilePath = path.join(os.tmpdir(), `ingredients-cache-${process.pid}.json`);
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+describe('ingredients cache', () => {
+  it('returns ingredients checked within the ttl, persisted across runs', async () => {
+    establishIngredientsCache(30, false, undefined, cacheFilePath);
+    cacheScrapedIngredients('123', { ingredients: ['Rice'], checkedAt: daysAgo(2) });
+    cacheScrapedIngredients('456', { ingredients: ['Water'], checkedAt: daysAgo(40) });
+    saveIngredientsCache();
+
+    establishIngredientsCache(30, false, undefined, cacheFilePath);
+    expect((await getFreshIngredients('123'))?.ingredients).toEqual(['Rice']);
+    expect(await getFreshIngredients('456')).toBeUndefined();
+    expect(await getFreshIngredients('789')).toBeUndefined();
+  });
+
+  it('reads ingredients and allergen declarations from the product store, reusing the read product', async () => {
+    const dbProduct = {
+      id: '123',
+      name: 'Chocolate Biscuits',
+      ingredients: ['Wheat Flour', 'Sugar'],
+      ingredientsLastChecked: daysAgo(2),
+      allergens: ['gluten', 'milk'],
+      allergenDeclarations: ['wheat'],
+    } as Product;
+    const readProduct = jest.fn(async (id: string) => (id === '123' ? dbProduct : undefined));
+    establishIngredientsCache(30, false, { readProduct } as unknown as ProductStore, cacheFilePath);
+
+    expect(await getFreshIngredients('123')).toMatchObject({
+      ingredients: ['Wheat Flour', 'Sugar'],
+      allergenDeclarations: ['wheat'],
+    });
+    expect(await getFreshIngredients('456')).toBeUndefined();
+    expect(readProduct).toHaveBeenCalledTimes(2);
+
+    expect(takeReadProduct('123')).toBe(dbProduct);
+    expect(takeReadProduct('123')).toBeUndefined();
+    expect(takeReadProduct('456')).toBeUndefined();
+  });
+
+  it('reads the products of a page together instead of one at a time', async () => {
+    const dbProduct = { id: '123', ingredients: ['Rice'], ingredientsLastChecked: daysAgo(2) } as Product;
+    const readProduct = jest.fn(async () => undefined);
+    const readProducts = jest.fn(async () => [dbProduct]);
+    establishIngredientsCache(30, false, { readProduct, readProducts } as unknown as ProductStore, cacheFilePath);
+
+    await prefetchProducts(['123', '456']);
+    expect((await getFreshIngredients('123'))?.ingredients).toEqual(['Rice']);
+    expect(await getFreshIngredients('456')).toBeUndefined();
+    expect(readProducts).toHaveBeenCalledWith(['123', '456']);
+    expect(readProduct).not.toHaveBeenCalled();
+    expect(takeReadProduct('123')).toBe(dbProduct);
+
+    // Products which weren't prefetched are still read on their own
+    await getFreshIngredients('789');
+    expect(readProduct).toHaveBeenCalledWith('789');
+  });
+
+  it('scrapes the product page when the stored product cannot be read', async () => {
+    const readProduct = jest.fn(async () => { throw Error('Unable to read product 123'); });
+    establishIngredientsCache(30, false, { readProduct } as unknown as ProductStore, cacheFilePath);
+
+    expect(await getFreshIngredients('123')).toBeUndefined();
+    expect(takeReadProduct('123')).toBeUndefined();
+  });
+
+  it('skips the cache when refreshing ingredients', async () => {
+    establishIngredientsCache(30, true, undefined, cacheFilePath);
+    expect(await getFreshIngredients('123')).toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+import 'jest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { establishLocalDB, localStore } from '../src/localdb';
+import { Product, ScrapeRun, UpsertResponse } from '../src/typings';
+
+const dbFilePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'localdb-')), 'products.json');
+
+const scrapedProduct = {
+  id: '12345',
+  name: 'Jasmine Rice',
+  size: '1kg',
+  currentPrice: 3.5,
+  lastUpdated: new Date('2024-01-02'),
+  lastChecked: new Date('2024-01-02'),
+  priceHistory: [{ date: new Date('2024-01-02'), price: 3.5 }],
+  ingredients: [],
+  sourceSite: 'countdown.co.nz',
+  category: ['rice'],
+} as Product;
+
+const readStoredIds = () => Object.keys(JSON.parse(fs.readFileSync(dbFilePath, 'utf-8')));
+
+describe('local database', () => {
+  it('writes upserted products when the run is stored and on close, instead of every upsert', async () => {
+    await establishLocalDB(dbFilePath);
+    expect(await localStore.upsertProduct({ ...scrapedProduct })).toBe(UpsertResponse.NewProduct);
+    expect(readStoredIds()).toEqual([]);
+
+    await localStore.upsertRun({ id: '20240102-090000-abcd' } as ScrapeRun);
+    expect(readStoredIds()).toEqual(['12345']);
+
+    await localStore.upsertProduct({ ...scrapedProduct, id: '67890' });
+    await localStore.close();
+    expect(readStoredIds()).toEqual(['12345', '67890']);
+
+    await establishLocalDB(dbFilePath);
+    expect((await localStore.readProduct('67890'))?.name).toBe('Jasmine Rice');
+  });
+});
@@ -0,0 +1,42 @@
+import 'jest';
+import { parseNutritionFromProductPage } from '../src/nutrition';
+
+describe('nutrition', () => {
+  it('parses per serving and per 100g columns from the header row', () => {
+    const html =
+      '<p>Servings per pack: 20</p><p>Serving size: 50 g</p>' +
+      '<table><tr><th></th><th>Per Serving</th><th>Per 100g</th></tr>' +
+      '<tr><td>Energy</td><td>775kJ (185Cal)</td><td>1550kJ (370Cal)</td></tr>' +
+      '<tr><td>Protein</td><td>3.6g</td><td>7.2g</td></tr>' +
+      '<tr><td>Fat, total</td><td>0.3g</td><td>0.6g</td></tr>' +
+      '<tr><td>- saturated</td><td>0.1g</td><td>0.1g</td></tr>' +
+      '<tr><td>- trans</td><td>0g</td><td>0g</td></tr>' +
+      '<tr><td>Carbohydrate</td><td>40.1g</td><td>80.1g</td></tr>' +
+      '<tr><td>- sugars</td><td>0.1g</td><td>0.2g</td></tr>' +
+      '<tr><td>Sodium</td><td>3mg</td><td>5mg</td></tr></table>';
+
+    expect(parseNutritionFromProductPage(html)).toEqual({
+      servingSize: '50g',
+      servingsPerPack: 20,
+      per100Unit: 'g',
+      per100: { energyKj: 1550, protein: 7.2, fat: 0.6, saturatedFat: 0.1, carbohydrate: 80.1, sugars: 0.2, sodium: 5 },
+      perServing: { energyKj: 775, protein: 3.6, fat: 0.3, saturatedFat: 0.1, carbohydrate: 40.1, sugars: 0.1, sodium: 3 },
+    });
+  });
+
+  it('converts calories, sodium in grams and per 100ml columns', () => {
+    const html =
+      '<table><tr><td>Nutrient</td><td>Per 100ml</td></tr>' +
+      '<tr><td>Energy (kcal)</td><td>100</td></tr>' +
+      '<tr><td>Sodium</td><td>0.25g</td></tr></table>';
+
+    expect(parseNutritionFromProductPage(html)).toEqual({
+      per100Unit: 'ml',
+      per100: { energyKj: 418, sodium: 250 },
+    });
+  });
+
+  it('returns undefined without a nutrition panel', () => {
+    expect(parseNutritionFromProductPage('<p>Ingredients: Rice</p>')).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import 'jest';
+import playwright from 'playwright';
+import { closePagePool, establishPagePool, mapWithPagePool, waitForRateLimit } from '../src/page-pool';
+
+// Fake browser context which creates numbered pages
+let pagesCreated = 0;
+const fakeContext = {
+  newPage: async () => ({ id: pagesCreated++, close: async () => { } }),
+} as unknown as playwright.BrowserContext;
+
+describe('page pool', () => {
+  afterEach(async () => {
+    await closePagePool();
+  });
+
+  it('never runs more tasks at once than the pool size', async () => {
+    await establishPagePool(fakeContext, 3, 0);
+
+    let running = 0;
+    let maxRunning = 0;
+    const results = await mapWithPagePool([1, 2, 3, 4, 5, 6, 7], async (page, item) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return item * 2;
+    });
+
+    expect(maxRunning).toBe(3);
+    expect(results).toEqual([2, 4, 6, 8, 10, 12, 14]);
+  });
+
+  it('delays each page load across every pooled page', async () => {
+    await establishPagePool(fakeContext, 3, 50);
+
+    const loadTimes = await mapWithPagePool([1, 2, 3, 4], async () => {
+      await waitForRateLimit();
+      return Date.now();
+    });
+
+    // Timers can fire a few milliseconds early, so the delay is checked with a small allowance
+    const sortedTimes = [...loadTimes].sort((a, b) => a - b);
+    sortedTimes.slice(1).forEach((loadTime, i) => {
+      expect(loadTime - sortedTimes[i]).toBeGreaterThanOrEqual(45);
+    });
+    expect(sortedTimes[3] - sortedTimes[0]).toBeGreaterThanOrEqual(145);
+  });
+});
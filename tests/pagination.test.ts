@@ -0,0 +1,42 @@
+import 'jest';
+import {
+  getUrlPageNumber, getUrlPageSize, parsePageCount, setUrlInStockProductsOnly, setUrlPageNumber,
+} from '../src/pagination';
+
+const listingUrl = 'https://www.woolworths.co.nz/shop/browse/pantry/rice?inStockProductsOnly=true&page=1&size=48';
+
+describe('pagination', () => {
+  it('derives page count from the total result count', () => {
+    const html = '<div class="paging-description">Showing 1 - 48 of 1,263 items</div>';
+    expect(parsePageCount(html, 48)).toBe(27);
+    expect(parsePageCount(html, 120)).toBe(11);
+  });
+
+  it('ignores result counts within product names and promotions', () => {
+    const html =
+      '<product-grid><h3>Value Pack Of 100 Items</h3><p>Buy 2 of 6 products for $10</p></product-grid>' +
+      '<div class="paging-description">Showing 1 - 48 of 96 items</div>';
+    expect(parsePageCount(html, 48)).toBe(2);
+    expect(parsePageCount('<product-grid><h3>Party Bag Of 200 Items</h3></product-grid>', 48)).toBe(1);
+  });
+
+  it('falls back to the highest pagination link', () => {
+    const html = '<ul class="pagination"><li><a>1</a></li><li><a>2</a></li><li><a>5</a></li><li><a>Next</a></li></ul>';
+    expect(parsePageCount(html, 48)).toBe(5);
+  });
+
+  it('defaults to a single page', () => {
+    expect(parsePageCount('<product-grid></product-grid>', 48)).toBe(1);
+  });
+
+  it('reads page size and sets page number on listing urls', () => {
+    expect(getUrlPageSize(listingUrl)).toBe(48);
+    expect(getUrlPageNumber(listingUrl)).toBe(1);
+    expect(setUrlPageNumber(listingUrl, 3)).toBe(
+      'https://www.woolworths.co.nz/shop/browse/pantry/rice?inStockProductsOnly=true&page=3&size=48'
+    );
+    expect(setUrlInStockProductsOnly(listingUrl, false)).toBe(
+      'https://www.woolworths.co.nz/shop/browse/pantry/rice?inStockProductsOnly=false&page=1&size=48'
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import 'jest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  establishProductOverrides, getProductOverride, isExcludedFromScrape, lintProductOverrides, parseProductOverrides,
+} from '../src/product-overrides';
+import { addUnitPriceToProduct } from '../src/unit-price';
+import { Product } from '../src/typings';
+
+describe('product overrides', () => {
+  it('has no problems in the default overrides file', () => {
+    const entries = JSON.parse(fs.readFileSync('src/product-overrides.json', 'utf-8'));
+    expect(lintProductOverrides(entries)).toEqual([]);
+  });
+
+  it('finds duplicate ids, invalid ids, unknown fields and unknown categories', () => {
+    expect(lintProductOverrides([
+      { id: '790129', categories: ['herbal-tea'] },
+      { id: '95091.', categories: ['herbal-tea'] },
+      { id: '790129', size: '20g' },
+      { id: '267492', category: 'herbal-tea' },
+      { id: '267485', categories: ['herbal-teas'] },
+      { id: '413302' },
+    ])).toEqual([
+      "entry 2 has invalid id '95091.' - ids must only contain digits",
+      "entry 4 (id 267492) has unknown field 'category'",
+      "entry 5 (id 267485) has unknown category 'herbal-teas'",
+      'entry 6 (id 413302) has nothing to override',
+      'id 790129 is overridden more than once, in entries 1, 3',
+    ]);
+  });
+
+  it('checks unit and quantity overrides are complete', () => {
+    expect(lintProductOverrides([
+      { id: '1001', unit: 'kg' },
+      { id: '1002', unit: 'lb', quantity: 2 },
+      { id: '1003', unit: 'g', quantity: -5 },
+      { id: '1004', exclude: 'yes' },
+    ])).toEqual([
+      'entry 1 (id 1001) needs both a unit and quantity',
+      "entry 2 (id 1002) has unknown unit 'lb' - valid units are: mg, g, kg, ml, cl, dl, l, ea",
+      'entry 3 (id 1003) quantity must be a positive number',
+      'entry 4 (id 1004) exclude must be true or false',
+    ]);
+    expect(() => parseProductOverrides('{}')).toThrow('overrides must be an array');
+  });
+
+  it('loads yaml overrides with numeric ids', () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'overrides-')), 'overrides.yaml');
+    fs.writeFileSync(
+      filePath,
+      '- id: 206889\n  name: Smoked Paprika\n  unit: g\n  quantity: 50\n  categories: [other-snacks]\n' +
+      '- id: 196996\n  exclude: true\n'
+    );
+    expect(establishProductOverrides(filePath)).toBe(2);
+    expect(isExcludedFromScrape('196996')).toBe(true);
+    expect(isExcludedFromScrape('206889')).toBe(false);
+
+    const override = getProductOverride('206889')!;
+    expect(override).toMatchObject({ id: '206889', name: 'Smoked Paprika', categories: ['other-snacks'] });
+    const product = addUnitPriceToProduct(
+      { id: '206889', name: 'Paprika', size: '', currentPrice: 4, category: ['other-snacks'] } as Product,
+      { unit: override.unit!, quantity: override.quantity! }
+    );
+    expect(product).toMatchObject({ unitPrice: 80, unitName: 'kg', unitPriceReason: 'overridden to 50g' });
+  });
+});
@@ -0,0 +1,38 @@
+import 'jest';
+import { productStores, selectProductStore } from '../src/product-store';
+import { sqliteStore } from '../src/sqlitedb';
+import { localStore, uploadImageToLocal } from '../src/localdb';
+import { supabaseStore } from '../src/supabasedb';
+import { cosmosStore } from '../src/cosmosdb';
+
+describe('product store', () => {
+  const originalBackend = process.env.DB_BACKEND;
+  afterEach(() => {
+    if (originalBackend === undefined) delete process.env.DB_BACKEND;
+    else process.env.DB_BACKEND = originalBackend;
+  });
+
+  it('selects a backend by name, ignoring case', () => {
+    expect(selectProductStore('sqlite')).toBe(sqliteStore);
+    expect(selectProductStore('Local')).toBe(localStore);
+    expect(selectProductStore('COSMOSDB')).toBe(cosmosStore);
+    expect(selectProductStore('supabase')).toBe(supabaseStore);
+  });
+
+  it('falls back to DB_BACKEND, then to Supabase', () => {
+    process.env.DB_BACKEND = 'sqlite';
+    expect(selectProductStore()).toBe(sqliteStore);
+    delete process.env.DB_BACKEND;
+    expect(selectProductStore()).toBe(supabaseStore);
+  });
+
+  it('lists the valid backends for an unknown name', () => {
+    expect(() => selectProductStore('mongodb')).toThrow(
+      `Unknown database backend 'mongodb' - valid options are: ${Object.keys(productStores).join(", ")}`
+    );
+  });
+
+  it('saves Supabase product images into the local images folder', () => {
+    expect(supabaseStore.uploadImage).toBe(uploadImageToLocal);
+  });
+});
@@ -0,0 +1,54 @@
+import 'jest';
+import * as cheerio from 'cheerio';
+import { isPromoPrice, parsePromotion } from '../src/promotions';
+
+// Builds a listing card with a title, price and any extra promotion markup
+function card(title: string, extraHtml: string) {
+  const $ = cheerio.load(
+    `<a class="product-entry"><h3 id="product-123456-title">${title}</h3>` +
+    `<div class="product-meta"><product-price><h3><em>4</em><span>50</span></h3>${extraHtml}</product-price></div></a>`
+  );
+  return $('a.product-entry');
+}
+
+describe('promotions', () => {
+  it('treats cards without promotions as regular prices', () => {
+    const promo = parsePromotion(card('special k cereal', ''), 4.5);
+    expect(promo).toEqual({ regularPrice: 4.5 });
+    expect(isPromoPrice(promo)).toBe(false);
+  });
+
+  it('finds specials from a was price', () => {
+    const promo = parsePromotion(card('jasmine rice', '<span class="price--was">Was $6.00</span>'), 4.5);
+    expect(promo).toEqual({ regularPrice: 6, promoPrice: 4.5, promoType: 'special' });
+    expect(isPromoPrice(promo)).toBe(true);
+  });
+
+  it('finds specials from badges only', () => {
+    expect(parsePromotion(card('jasmine rice', '<product-badge><img alt="Special"></product-badge>'), 4.5))
+      .toEqual({ regularPrice: 4.5, promoPrice: 4.5, promoType: 'special' });
+    expect(parsePromotion(card('jasmine rice', '<div class="product-badge">On Sale</div>'), 4.5))
+      .toEqual({ regularPrice: 4.5, promoPrice: 4.5, promoType: 'special' });
+    expect(parsePromotion(card('lindt chocolate', '<p class="subtitle">Special Edition</p>'), 4.5))
+      .toEqual({ regularPrice: 4.5 });
+  });
+
+  it('finds Club prices from badges', () => {
+    const promo = parsePromotion(
+      card('jasmine rice', '<product-badge><img alt="Club Price"></product-badge><s>$5.20</s>'),
+      4.5
+    );
+    expect(promo).toEqual({ regularPrice: 5.2, promoPrice: 4.5, promoType: 'club' });
+  });
+
+  it('keeps the regular price for multibuy deals', () => {
+    const promo = parsePromotion(card('jasmine rice', '<p>Any 2 for $7.00</p>'), 4.5);
+    expect(promo).toEqual({
+      regularPrice: 4.5,
+      promoPrice: 3.5,
+      promoType: 'multibuy',
+      multibuy: { quantity: 2, price: 7 },
+    });
+    expect(isPromoPrice(promo)).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import 'jest';
+import { getBackoffDelay, retryWithBackoff } from '../src/retry';
+
+const options = { retries: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+describe('retry with backoff', () => {
+  it('doubles the delay each attempt, capped at the max delay', () => {
+    const noJitter = () => 1;
+    expect(getBackoffDelay(0, options, noJitter)).toBe(1000);
+    expect(getBackoffDelay(1, options, noJitter)).toBe(2000);
+    expect(getBackoffDelay(2, options, noJitter)).toBe(4000);
+    expect(getBackoffDelay(3, options, noJitter)).toBe(5000);
+  });
+
+  it('applies jitter between half and the full delay', () => {
+    expect(getBackoffDelay(1, options, () => 0)).toBe(1000);
+    expect(getBackoffDelay(1, options, () => 0.5)).toBe(1500);
+  });
+
+  it('retries until the task succeeds', async () => {
+    const fastOptions = { retries: 3, baseDelayMs: 1, maxDelayMs: 1 };
+    const onRetry = jest.fn();
+    const result = await retryWithBackoff(async (attempt) => {
+      if (attempt < 2) throw 'Page Timeout';
+      return 'loaded';
+    }, fastOptions, onRetry);
+
+    expect(result).toBe('loaded');
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws the last error once retries are used up', async () => {
+    const fastOptions = { retries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+    const task = jest.fn(async () => { throw 'Page Timeout'; });
+    await expect(retryWithBackoff(task, fastOptions)).rejects.toBe('Page Timeout');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,97 @@
+import 'jest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createCheckpoint } from '../src/checkpoint';
+import {
+  addStats, buildRunSummary, buildScrapeRun, createEmptyStats, logRunSummary, writeRunSummary,
+} from '../src/run-summary';
+import { CategorisedUrl, RunCheckpoint, ScrapeStats, UrlSummary } from '../src/typings';
+
+const startTime = Date.UTC(2024, 5, 1, 9, 0, 0);
+const riceUrl = { url: 'https://www.woolworths.co.nz/shop/browse/pantry/rice?page=1', categories: ['rice'] };
+const pastaUrl = { url: 'https://www.woolworths.co.nz/shop/browse/pantry/pasta?page=1', categories: ['pasta'] };
+
+// Scrapes each page of a url into its own summary, adding the page stats into the url and run totals
+function scrapeUrl(checkpoint: RunCheckpoint, url: CategorisedUrl, pages: Partial<ScrapeStats>[], failedPages = 0) {
+  const urlSummary: UrlSummary = {
+    ...url, pagesScraped: 0, failedPages, durationSeconds: 30, stats: createEmptyStats(),
+  };
+  pages.forEach((page) => {
+    const pageStats = { ...createEmptyStats(), ...page };
+    addStats(urlSummary.stats, pageStats);
+    addStats(checkpoint.stats, pageStats);
+    urlSummary.pagesScraped++;
+  });
+  for (let i = 0; i < failedPages; i++) checkpoint.failedUrls.push({ ...url, maxPages: 1 });
+  checkpoint.urlSummaries.push(urlSummary);
+  checkpoint.completedUrlCount++;
+}
+
+function createScrapedCheckpoint(): RunCheckpoint {
+  const checkpoint = createCheckpoint([riceUrl, pastaUrl], startTime);
+  scrapeUrl(checkpoint, riceUrl, [{ scraped: 48, newProducts: 2, priceChanged: 3 }, { scraped: 12, failed: 1 }]);
+  scrapeUrl(checkpoint, pastaUrl, [{ scraped: 20, outOfStock: 4, unscrapable: 1 }], 2);
+  return checkpoint;
+}
+
+describe('run summary', () => {
+  it('adds each count into the totals', () => {
+    const totals = createEmptyStats();
+    addStats(totals, { ...createEmptyStats(), scraped: 48, failed: 2 });
+    addStats(totals, { ...createEmptyStats(), scraped: 12, outOfStock: 3 });
+    expect(totals).toEqual({ ...createEmptyStats(), scraped: 60, failed: 2, outOfStock: 3 });
+  });
+
+  it('totals stats per url and across the run, along with failed pages', () => {
+    const summary = buildRunSummary(createScrapedCheckpoint(), startTime + 95 * 1000);
+
+    expect(summary).toMatchObject({
+      startTime: '2024-06-01T09:00:00.000Z',
+      endTime: '2024-06-01T09:01:35.000Z',
+      durationSeconds: 95,
+      urlCount: 2,
+      completedUrlCount: 2,
+      failedPageCount: 2,
+    });
+    expect(summary.urls.map((url) => [url.categories[0], url.pagesScraped, url.stats.scraped, url.stats.failed]))
+      .toEqual([['rice', 2, 60, 1], ['pasta', 1, 20, 0]]);
+    expect(summary.totals).toEqual({
+      scraped: 80, newProducts: 2, priceChanged: 3, infoUpdated: 0, alreadyUpToDate: 0,
+      failed: 1, outOfStock: 4, unscrapable: 1,
+    });
+  });
+
+  it('builds the stored run with its status, store location, arguments and failed urls', () => {
+    const checkpoint = createScrapedCheckpoint();
+    const run = buildScrapeRun(checkpoint, 'interrupted', startTime + 60 * 1000, 'Newmarket', ['db', 'resume']);
+
+    expect(run).toMatchObject({
+      id: checkpoint.runId,
+      status: 'interrupted',
+      durationSeconds: 60,
+      storeLocation: 'Newmarket',
+      arguments: ['db', 'resume'],
+      completedUrlCount: 2,
+    });
+    expect(run.totals.scraped).toBe(80);
+    expect(run.failedUrls).toEqual([{ ...pastaUrl, maxPages: 1 }, { ...pastaUrl, maxPages: 1 }]);
+  });
+
+  it('writes the summary report and logs a row per url', () => {
+    const summary = buildRunSummary(createScrapedCheckpoint(), startTime + 95 * 1000);
+    const reportsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-'));
+    const filePath = writeRunSummary(summary, reportsDir);
+    expect(filePath).toBe(path.join(reportsDir, `run-${summary.runId}.json`));
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual(summary);
+
+    const consoleLog = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    logRunSummary(summary);
+    const lines = consoleLog.mock.calls.map((call) => String(call[1]));
+    consoleLog.mockRestore();
+
+    expect(lines.find((line) => line.startsWith('pantry/rice'))).toMatch(/\|\s+2 \|\s+60 \|\s+2 \|\s+3 \|/);
+    expect(lines.find((line) => line.startsWith('Totals'))).toMatch(/\|\s+80 \|/);
+    expect(lines).toContain('2 pages failed to load');
+  });
+});
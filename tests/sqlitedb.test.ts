@@ -0,0 +1,112 @@
+import 'jest';
+import { establishSQLite, readRunFromSQLite, sqliteStore } from '../src/sqlitedb';
+import { Product, ScrapeRun, UpsertResponse } from '../src/typings';
+import { createEmptyStats } from '../src/run-summary';
+
+// Sample product scraped on a given day at a given price
+function sampleProduct(day: string, price: number): Product {
+  const date = new Date(day);
+  return {
+    id: '12345',
+    name: 'Orange Juice',
+    size: '250ml',
+    currentPrice: price,
+    lastUpdated: date,
+    lastChecked: date,
+    priceHistory: [{ date, price }],
+    ingredients: ['Orange Juice'],
+    sourceSite: 'countdown.co.nz',
+    category: ['juice'],
+  };
+}
+
+describe('sqlite store', () => {
+  beforeEach(async () => {
+    await establishSQLite(':memory:');
+  });
+
+  afterEach(async () => {
+    await sqliteStore.close();
+  });
+
+  it('inserts new products and reads them back', async () => {
+    expect(await sqliteStore.upsertProduct(sampleProduct('2023-01-20', 4))).toBe(UpsertResponse.NewProduct);
+
+    const stored = await sqliteStore.readProduct('12345');
+    expect(stored?.name).toBe('Orange Juice');
+    expect(stored?.ingredients).toEqual(['Orange Juice']);
+    expect(stored?.priceHistory).toHaveLength(1);
+    expect(await sqliteStore.readProduct('99999')).toBeUndefined();
+    expect((await sqliteStore.readProducts(['12345', '99999'])).map((product) => product.id)).toEqual(['12345']);
+  });
+
+  it('applies the same upsert outcomes as other backends', async () => {
+    await sqliteStore.upsertProduct(sampleProduct('2023-01-20', 4));
+
+    expect(await sqliteStore.upsertProduct(sampleProduct('2023-01-21', 4))).toBe(UpsertResponse.AlreadyUpToDate);
+    expect(await sqliteStore.upsertProduct(sampleProduct('2023-01-22', 5))).toBe(UpsertResponse.PriceChanged);
+    expect(await sqliteStore.upsertProduct({ ...sampleProduct('2023-01-23', 5), size: '300ml' }))
+      .toBe(UpsertResponse.InfoChanged);
+
+    const stored = await sqliteStore.readProduct('12345');
+    expect(stored?.currentPrice).toBe(5);
+    expect(stored?.size).toBe('300ml');
+    expect(stored?.priceHistory.map((datedPrice) => datedPrice.price)).toEqual([4, 5]);
+    expect(stored?.priceHistory[1].date).toEqual(new Date('2023-01-22'));
+    expect(stored?.lastUpdated).toBeInstanceOf(Date);
+  });
+
+  it('stores nutrition and keeps it when no product page was scraped', async () => {
+    const nutrition = { per100Unit: 'ml' as const, per100: { energyKj: 190, sugars: 9.8, sodium: 5 } };
+    await sqliteStore.upsertProduct({ ...sampleProduct('2023-01-20', 4), nutrition });
+    expect((await sqliteStore.readProduct('12345'))?.nutrition).toEqual(nutrition);
+
+    expect(await sqliteStore.upsertProduct(sampleProduct('2023-01-21', 4))).toBe(UpsertResponse.AlreadyUpToDate);
+    const updatedNutrition = { ...nutrition, per100: { ...nutrition.per100, sugars: 8.5 } };
+    expect(await sqliteStore.upsertProduct({ ...sampleProduct('2023-01-22', 4), nutrition: updatedNutrition }))
+      .toBe(UpsertResponse.InfoChanged);
+    expect((await sqliteStore.readProduct('12345'))?.nutrition).toEqual(updatedNutrition);
+  });
+
+  it('stores allergen declarations and upserts an already read product', async () => {
+    await sqliteStore.upsertProduct({ ...sampleProduct('2023-01-20', 4), allergenDeclarations: ['milk'] });
+    const dbProduct = await sqliteStore.readProduct('12345');
+    expect(dbProduct?.allergenDeclarations).toEqual(['milk']);
+
+    expect(await sqliteStore.upsertProduct(sampleProduct('2023-01-22', 5), undefined, dbProduct))
+      .toBe(UpsertResponse.PriceChanged);
+    const stored = await sqliteStore.readProduct('12345');
+    expect(stored?.priceHistory.map((datedPrice) => datedPrice.price)).toEqual([4, 5]);
+    expect(stored?.allergenDeclarations).toEqual(['milk']);
+  });
+
+  it('stores scrape runs and the run that last checked each product', async () => {
+    const run: ScrapeRun = {
+      id: 'run-1',
+      status: 'running',
+      startTime: '2023-01-20T00:00:00.000Z',
+      endTime: '2023-01-20T00:01:00.000Z',
+      durationSeconds: 60,
+      storeLocation: 'Auckland',
+      arguments: ['db=sqlite'],
+      urlCount: 1,
+      completedUrlCount: 0,
+      totals: createEmptyStats(),
+      urls: [],
+      failedUrls: [],
+      storeSelections: [{ requestedName: 'Auckland', resolvedName: 'Auckland', matched: true, selectedAt: '' }],
+    };
+    expect(await sqliteStore.upsertRun(run)).toBe(true);
+    expect(await sqliteStore.upsertRun({ ...run, status: 'completed', completedUrlCount: 1 })).toBe(true);
+
+    const storedRun = await readRunFromSQLite('run-1');
+    expect(storedRun?.status).toBe('completed');
+    expect(storedRun?.arguments).toEqual(['db=sqlite']);
+    expect(storedRun?.totals).toEqual(createEmptyStats());
+    expect(storedRun?.storeSelections[0].resolvedName).toBe('Auckland');
+
+    await sqliteStore.upsertProduct({ ...sampleProduct('2023-01-20', 4), lastCheckedRunId: 'run-1' });
+    await sqliteStore.upsertProduct({ ...sampleProduct('2023-01-21', 4), lastCheckedRunId: 'run-2' });
+    expect((await sqliteStore.readProduct('12345'))?.lastCheckedRunId).toBe('run-2');
+  });
+});
@@ -0,0 +1,55 @@
+import 'jest';
+import {
+  establishStoreLocations, expandUrlsPerStore, hasMultipleStoreLocations, isPrimaryStore, isStoreNameMatch, parseStoreNames,
+} from '../src/store-locations';
+
+const configuredNames = parseStoreNames('Mt Albert, Newmarket,, Hamilton ');
+
+describe('store locations', () => {
+  it('selects a subset of configured stores using their configured names', () => {
+    expect(configuredNames).toEqual(['Mt Albert', 'Newmarket', 'Hamilton']);
+    expect(establishStoreLocations(undefined, configuredNames)).toEqual(configuredNames);
+    expect(establishStoreLocations(['hamilton', 'Taupo'], configuredNames)).toEqual(['Hamilton', 'Taupo']);
+    expect(isPrimaryStore('Hamilton')).toBe(true);
+    expect(isPrimaryStore('Taupo')).toBe(false);
+    expect(hasMultipleStoreLocations()).toBe(true);
+  });
+
+  it('repeats unassigned urls for each store', () => {
+    establishStoreLocations(['Mt Albert', 'Newmarket'], configuredNames);
+    const urls = expandUrlsPerStore([
+      { url: 'https://www.woolworths.co.nz/shop/browse/pantry/rice', categories: ['rice'] },
+      { url: 'https://www.woolworths.co.nz/shop/browse/pantry/pasta', categories: ['pasta'], storeName: 'Hamilton' },
+    ]);
+    expect(urls.map((url) => `${url.categories[0]} ${url.storeName}`)).toEqual([
+      'pasta Hamilton',
+      'rice Mt Albert',
+      'rice Newmarket',
+    ]);
+  });
+
+  it('matches the active store read back from the site', () => {
+    expect(isStoreNameMatch('Mt Albert', 'Woolworths Mt. Albert')).toBe(true);
+    expect(isStoreNameMatch('woolworths newmarket', 'Newmarket')).toBe(true);
+    expect(isStoreNameMatch('Mt Albert', 'Woolworths Newmarket')).toBe(false);
+    expect(isStoreNameMatch('Auckland', 'Woolworths Auckland Central')).toBe(false);
+    expect(isStoreNameMatch('Auckland Central', 'Auckland')).toBe(false);
+    expect(isStoreNameMatch('Woolworths', 'Woolworths')).toBe(false);
+    expect(isStoreNameMatch('Mt Albert', undefined)).toBe(false);
+  });
+
+  it('leaves urls unchanged when no stores are set', () => {
+    establishStoreLocations(undefined, []);
+    const urls = [{ url: 'https://www.woolworths.co.nz/shop/browse/pantry/rice', categories: ['rice'] }];
+    expect(expandUrlsPerStore(urls)).toEqual(urls);
+    expect(isPrimaryStore('Mt Albert')).toBe(true);
+    expect(hasMultipleStoreLocations()).toBe(false);
+  });
+
+  it('only records per-store prices for more than one store', () => {
+    establishStoreLocations(['Mt Albert'], configuredNames);
+    expect(hasMultipleStoreLocations()).toBe(false);
+    expect(isPrimaryStore('Mt Albert')).toBe(true);
+    establishStoreLocations(undefined, []);
+  });
+});
@@ -0,0 +1,68 @@
+import 'jest';
+import { establishSupabase, readProductFromSupabase, upsertProductToSupabase } from '../src/supabasedb';
+import { Product, UpsertResponse } from '../src/typings';
+
+// Each query resolves with the next response, and inserted or upserted products are recorded
+const mockResponses: { data: unknown; error: { code: string; message: string } | null }[] = [];
+const mockWrites: { method: string; product: Product }[] = [];
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: () => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        single: async () => mockResponses.shift(),
+        insert: async (product: Product) => { mockWrites.push({ method: 'insert', product }); return { error: null }; },
+        upsert: async (product: Product) => { mockWrites.push({ method: 'upsert', product }); return { error: null }; },
+      };
+      return query;
+    },
+  }),
+}));
+
+const scrapedProduct = {
+  id: '12345',
+  name: 'Jasmine Rice',
+  size: '1kg',
+  currentPrice: 3.5,
+  lastUpdated: new Date('2024-01-02'),
+  lastChecked: new Date('2024-01-02'),
+  priceHistory: [{ date: new Date('2024-01-02'), price: 3.5 }],
+  ingredients: [],
+  sourceSite: 'countdown.co.nz',
+  category: ['rice'],
+} as Product;
+
+describe('supabase', () => {
+  beforeAll(async () => {
+    process.env.SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_KEY = 'key';
+    await establishSupabase();
+  });
+
+  beforeEach(() => {
+    mockResponses.length = 0;
+    mockWrites.length = 0;
+  });
+
+  it('returns undefined for products which are not stored', async () => {
+    mockResponses.push({ data: null, error: { code: 'PGRST116', message: 'no rows returned' } });
+    expect(await readProductFromSupabase('12345')).toBeUndefined();
+  });
+
+  it('fails an upsert when the stored product cannot be read, instead of inserting it', async () => {
+    mockResponses.push({ data: null, error: { code: '57014', message: 'statement timeout' } });
+    await expect(readProductFromSupabase('12345')).rejects.toThrow('Unable to read product 12345 - statement timeout');
+
+    mockResponses.push({ data: null, error: { code: '57014', message: 'statement timeout' } });
+    expect(await upsertProductToSupabase({ ...scrapedProduct })).toBe(UpsertResponse.Failed);
+    expect(mockWrites).toEqual([]);
+  });
+
+  it('inserts products which are not stored', async () => {
+    mockResponses.push({ data: null, error: { code: 'PGRST116', message: 'no rows returned' } });
+    expect(await upsertProductToSupabase({ ...scrapedProduct })).toBe(UpsertResponse.NewProduct);
+    expect(mockWrites.map((write) => write.method)).toEqual(['insert']);
+  });
+});
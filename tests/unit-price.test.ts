@@ -0,0 +1,131 @@
+import 'jest';
+import { addUnitPriceToProduct, categoryDisplayUnits, getDisplayUnit, parseUnitQuantity } from '../src/unit-price';
+import { Product } from '../src/typings';
+import { validCategories } from '../src/utilities';
+
+// Each case is a product name and size, with the expected unit, quantity, original quantity and confidence
+const cases: [string, string | undefined, string, number, number, string][] = [
+  // Weights
+  ['Jasmine Rice', '1kg', 'kg', 1, 1, 'high'],
+  ['Cheddar Cheese', '500g', 'kg', 0.5, 500, 'high'],
+  ['Mixed Herbs', '12 g', 'kg', 0.012, 12, 'high'],
+  ['Vitamin C Tablets', '500mg', 'kg', 0.0005, 500, 'high'],
+  ['Flour', '1.5 kilograms', 'kg', 1.5, 1.5, 'high'],
+  ['Beef Mince', 'kg', 'kg', 1, 1, 'high'],
+  ['Bananas', 'per kg', 'kg', 1, 1, 'high'],
+
+  // Volumes
+  ['Orange Juice', '250ml', 'L', 0.25, 250, 'high'],
+  ['Milk Standard', '2l', 'L', 2, 2, 'high'],
+  ['Olive Oil', '1 Litre', 'L', 1, 1, 'high'],
+  ['Wine', '75cl', 'L', 0.75, 75, 'high'],
+  ['Cream', '3dl', 'L', 0.3, 3, 'high'],
+
+  // Multipacks with each item's size
+  ['Soft Drink', '6 x 1.5L', 'L', 9, 9, 'high'],
+  ['Yoghurt Pouches', '4 x 107ml', 'L', 0.428, 428, 'high'],
+  ['Sparkling Water', '24x250ml', 'L', 6, 6000, 'high'],
+  ['Chips', '12 × 20g', 'kg', 0.24, 240, 'high'],
+
+  // Packs with a single item size
+  ['Cola', '330ml cans 30pack', 'L', 9.9, 9900, 'medium'],
+  ['Cat Food', '85g pouches 12pack', 'kg', 1.02, 1020, 'medium'],
+  ['Muesli Bars', '4 x 12g packs 48g', 'kg', 0.048, 48, 'high'],
+  ['Potato Chips', '150g 6pack', 'kg', 0.15, 150, 'low'],
+  ['Snack Bars', '25g 20pack', 'kg', 0.025, 25, 'low'],
+  ['Muesli Bars', '25g each 20pack', 'kg', 0.5, 500, 'medium'],
+  ['Lunchbox Snacks', '20g bags 180g', 'kg', 0.18, 180, 'medium'],
+
+  // Sizes only found in the product name
+  ['Anchor Milk Standard 2L', undefined, 'L', 2, 2, 'medium'],
+  ['Sugar 1.5kg', '', 'kg', 1.5, 1.5, 'medium'],
+
+  // Counts
+  ['Free Range Eggs Size 7', '12pack', 'dozen', 1, 12, 'high'],
+  ['Barn Eggs', '6pk', 'dozen', 0.5, 6, 'high'],
+  ['Cage Free Eggs', 'dozen', 'dozen', 1, 12, 'high'],
+  ['Mixed Grade Eggs', '2 dozen', 'dozen', 2, 24, 'high'],
+  ['Organic Eggs', 'half dozen', 'dozen', 0.5, 6, 'high'],
+  ['Size 8 Eggs 700g', '12pk', 'dozen', 1, 12, 'high'],
+  ['English Breakfast Tea Bags', '100pk', 'tea bag', 100, 100, 'high'],
+  ['Green Tea', '50 bags', 'tea bag', 50, 50, 'high'],
+  ['Tea Bags', '100pk 200g', 'tea bag', 100, 100, 'high'],
+  ['Loose Leaf Green Tea', '100g', 'kg', 0.1, 100, 'high'],
+  ['Coffee Capsules', '10pk 52g', 'capsule', 10, 10, 'high'],
+  ['Espresso Pods', '16 pods', 'capsule', 16, 16, 'high'],
+  ['Facial Tissues', '200 sheets', '100 sheets', 2, 200, 'high'],
+  ['Toilet Paper', '180 sheets 12pack', '100 sheets', 21.6, 2160, 'medium'],
+  ['Paper Towels', '4 rolls', 'ea', 4, 4, 'medium'],
+  ['Avocado', 'ea', 'ea', 1, 1, 'high'],
+  ['Lemon', 'each', 'ea', 1, 1, 'high'],
+  ['Batteries AA', '8pack', 'ea', 8, 8, 'medium'],
+  ['Dishwasher Tablets', '60 tablets', 'ea', 60, 60, 'medium'],
+];
+
+describe('unit price', () => {
+  it.each(cases)('%s (%s) is priced per %s', (name, size, unitName, quantity, originalQuantity, confidence) => {
+    const unitQuantity = parseUnitQuantity(name, size);
+    expect(unitQuantity).toMatchObject({ unitName, originalQuantity, confidence });
+    expect(unitQuantity?.quantity).toBeCloseTo(quantity, 6);
+    expect(unitQuantity?.reason.length).toBeGreaterThan(0);
+  });
+
+  it.each([
+    ['Gift Card', undefined],
+    ['Watermelon', 'Large'],
+    ['Vitamin B12 Spray', ''],
+  ])('finds no unit quantity for %s (%s)', (name, size) => {
+    expect(parseUnitQuantity(name, size)).toBeUndefined();
+  });
+
+  it('explains low confidence pack guesses', () => {
+    expect(parseUnitQuantity('Potato Chips', '150g 6pack')?.reason).toBe('150g assumed to be the total weight of a 6 pack');
+    expect(parseUnitQuantity('Anchor Milk Standard 2L')?.reason).toBe('size 2l in product name');
+  });
+
+  it('sets the unit price and how it was derived on a product', () => {
+    const product = addUnitPriceToProduct({
+      id: '12345',
+      name: 'Free Range Eggs',
+      size: '6pack',
+      currentPrice: 5.5,
+      lastUpdated: new Date('2023-01-20'),
+      lastChecked: new Date('2023-01-20'),
+      priceHistory: [],
+      ingredients: [],
+      sourceSite: 'countdown.co.nz',
+      category: ['eggs'],
+    } as Product);
+    expect(product).toMatchObject({
+      unitPrice: 11,
+      unitName: 'dozen',
+      originalUnitQuantity: 6,
+      unitPriceConfidence: 'high',
+      unitPriceReason: '6 eggs',
+    });
+  });
+
+  it('has a display unit for every valid category', () => {
+    expect(Object.keys(categoryDisplayUnits).sort()).toEqual([...validCategories].sort());
+  });
+
+  it('shows unit prices in the category comparison unit', () => {
+    expect(getDisplayUnit(['sweets-lollies'], 'kg')).toBe('100g');
+    expect(getDisplayUnit(['sauces'], 'kg')).toBe('100g');
+    expect(getDisplayUnit(['sweets-lollies'], 'L')).toBe('100ml');
+    expect(getDisplayUnit(['milk'], 'L')).toBe('L');
+    expect(getDisplayUnit(['eggs'], 'dozen')).toBe('ea');
+    expect(getDisplayUnit(['black-tea'], 'kg')).toBe('kg');
+    expect(getDisplayUnit(['unknown'], 'kg')).toBe('kg');
+    expect(getDisplayUnit(['other-snacks'], '100 sheets')).toBeUndefined();
+
+    const lollies = addUnitPriceToProduct({
+      id: '12345',
+      name: 'Jet Planes',
+      size: '180g',
+      currentPrice: 3,
+      category: ['sweets-lollies'],
+    } as Product);
+    expect(lollies).toMatchObject({ unitPrice: 16.67, unitName: 'kg', displayUnitPrice: 1.67, displayUnitName: '100g' });
+  });
+});
@@ -1,9 +1,9 @@
 import 'jest';
 // jest.useFakeTimers();
 import * as cheerio from 'cheerio';
-import { playwrightElementToProduct } from '../src/index';
+import { playwrightElementToProduct } from '../src/product-entries';
 import { CategorisedUrl, Product } from '../src/typings';
-import { addUnitPriceToProduct } from '../src/utilities';
+import { addUnitPriceToProduct } from '../src/unit-price';
 
 // Sample input
 const html = `
@@ -23,6 +23,7 @@ const juiceProduct: Product = {
   priceHistory: [],
   sourceSite: 'countdown.co.nz',
   category: ['juice'],
+  ingredients: [],
 };
 
 const $ = cheerio.load(html);